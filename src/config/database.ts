@@ -142,6 +142,11 @@ export function getCoreDatabase(): Db {
     db = client.db(dbName);
     dbCache.set(dbName, db);
 
+    // Schedule index creation (non-blocking)
+    createCoreIndexes(db).catch((err) => {
+        console.error(`⚠️ Core index creation warning:`, err);
+    });
+
     return db;
 }
 
@@ -180,6 +185,9 @@ async function createIndexesForCompany(database: Db) {
     const labelsCollection = database.collection("labels");
     const customerImagesCollection = database.collection("customer_images");
     const salesCollection = database.collection("sales");
+    const quotesCollection = database.collection("quotes");
+    const quoteRevisionsCollection = database.collection("quote_revisions");
+    const exchangeRatesCollection = database.collection("exchange_rates");
 
     // Customer indexes
     await customersCollection.createIndex({ status: 1 });
@@ -197,6 +205,20 @@ async function createIndexesForCompany(database: Db) {
     await salesCollection.createIndex({ customerId: 1 });
     await salesCollection.createIndex({ status: 1 });
     await salesCollection.createIndex({ createdAt: -1 });
+    await salesCollection.createIndex({ status: 1, "installments.dueDate": 1 });
+    await salesCollection.createIndex({ "logs.createdAt": 1 });
+
+    // Quote indexes
+    await quotesCollection.createIndex({ status: 1, createdAt: -1 });
+    await quotesCollection.createIndex({ creatorId: 1, createdAt: -1 });
+    await quotesCollection.createIndex({ customerId: 1 });
+    await quotesCollection.createIndex({ companyId: 1, status: 1, validUntil: 1 });
+
+    // Quote revision indexes
+    await quoteRevisionsCollection.createIndex({ quoteId: 1, revision: -1 }, { unique: true });
+
+    // Exchange rate indexes
+    await exchangeRatesCollection.createIndex({ effectiveAt: -1 });
 
     console.log(`✅ Indexes created for ${database.databaseName}`);
 }
@@ -234,6 +256,19 @@ async function createVendorIndexes(database: Db) {
     console.log(`✅ Vendor indexes created for ${database.databaseName}`);
 }
 
+/**
+ * Create indexes for the core database
+ */
+async function createCoreIndexes(database: Db) {
+    const shareLinksCollection = database.collection("quote_share_links");
+
+    // Quote share link indexes (token is looked up on every public view)
+    await shareLinksCollection.createIndex({ token: 1 }, { unique: true });
+    await shareLinksCollection.createIndex({ companyId: 1, quoteId: 1 });
+
+    console.log(`✅ Core indexes created for ${database.databaseName}`);
+}
+
 /**
  * Get MongoDB client for transaction support
  */
@@ -21,6 +21,12 @@ import { companyRoutes } from "@/routes/company.routes";
 import { vendorPriceRateRoutes } from "@/routes/vendor-price-rate.routes";
 import { publicRoutes } from "@/routes/public.routes";
 import { quoteRoutes } from "@/routes/quote.routes";
+import { serviceItemRoutes } from "@/routes/service-item.routes";
+import { roomTemplateRoutes } from "@/routes/room-template.routes";
+import { exchangeRateRoutes } from "@/routes/exchange-rate.routes";
+import { receivableRoutes } from "@/routes/receivable.routes";
+import { reportRoutes } from "@/routes/report.routes";
+import { startQuoteExpiryJob } from "@/jobs/quote-expiry";
 
 const app = new Hono();
 
@@ -92,6 +98,11 @@ app.route("/api/vendors", vendorAttachmentRoutes);
 app.route("/api/products", productRoutes);
 app.route("/api/vendor-price-rates", vendorPriceRateRoutes);
 app.route("/api/quotes", quoteRoutes);
+app.route("/api/service-items", serviceItemRoutes);
+app.route("/api/room-templates", roomTemplateRoutes);
+app.route("/api/exchange-rates", exchangeRateRoutes);
+app.route("/api/receivables", receivableRoutes);
+app.route("/api/reports", reportRoutes);
 
 // Initialize services
 async function initialize() {
@@ -104,6 +115,9 @@ async function initialize() {
         // Connect to MongoDB
         await connectDatabase();
 
+        // Persist expiry of overdue quotes in the background
+        startQuoteExpiryJob();
+
         logger.info(`✅ Server ready on port ${env.PORT}`);
     } catch (error) {
         logger.error("Failed to initialize server", error);
@@ -0,0 +1,34 @@
+import { CompanyRepository } from "@/repositories/company.repository";
+import { QuoteService } from "@/services/quote.service";
+import { logger } from "@/utils/logger";
+
+const EXPIRY_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Store the "expired" status of every company's overdue quotes. Until this runs, reads already
+ * report those quotes as expired. A failing company is logged and skipped.
+ */
+async function expireOverdueQuotes(): Promise<void> {
+  try {
+    const companyIds = await new CompanyRepository().findAllIds();
+    const service = new QuoteService();
+
+    for (const companyId of companyIds) {
+      try {
+        await service.expireOverdueQuotes(companyId);
+      } catch (error) {
+        logger.error("Quote expiry failed for company", { companyId, error });
+      }
+    }
+  } catch (error) {
+    logger.error("Quote expiry job failed", error);
+  }
+}
+
+/**
+ * Run the quote expiry once now and then every hour.
+ */
+export function startQuoteExpiryJob(): void {
+  void expireOverdueQuotes();
+  setInterval(() => void expireOverdueQuotes(), EXPIRY_INTERVAL_MS);
+}
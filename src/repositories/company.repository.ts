@@ -44,6 +44,16 @@ export class CompanyRepository {
     }
   }
 
+  async findAllIds(): Promise<string[]> {
+    try {
+      const docs = await this.getCollection().find({}, { projection: { _id: 1 } }).toArray();
+      return docs.map(doc => doc._id!.toString());
+    } catch (error) {
+      logger.error("Failed to list company IDs", error);
+      throw error;
+    }
+  }
+
   async addUser(companyId: string, userId: string): Promise<void> {
     try {
       await this.getCollection().updateOne(
@@ -0,0 +1,51 @@
+import { Collection, MongoServerError } from "mongodb";
+import { getDatabaseForCompany } from "@/config/database";
+import { logger } from "@/utils/logger";
+
+interface Counter {
+  _id: string;
+  seq: number;
+}
+
+/**
+ * Per-company named sequences (e.g. quote numbers) that are safe under concurrent use.
+ */
+export class CounterRepository {
+  private getCollection(companyId: string): Collection<Counter> {
+    const db = getDatabaseForCompany(companyId);
+    return db.collection<Counter>("counters");
+  }
+
+  /**
+   * Atomically increment and return the next value of a sequence.
+   * A missing sequence is first initialised with the value returned by `seed`, so numbering can
+   * continue after existing documents instead of starting over at 1.
+   */
+  async next(companyId: string, key: string, seed: () => Promise<number>): Promise<number> {
+    try {
+      const collection = this.getCollection(companyId);
+
+      const existing = await collection.findOne({ _id: key });
+      if (!existing) {
+        const initial = await seed();
+        try {
+          await collection.insertOne({ _id: key, seq: initial });
+        } catch (error) {
+          // Another request initialised the sequence first
+          if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+        }
+      }
+
+      const result = await collection.findOneAndUpdate(
+        { _id: key },
+        { $inc: { seq: 1 } },
+        { returnDocument: "after" }
+      );
+
+      return result!.seq;
+    } catch (error) {
+      logger.error("Failed to increment counter", error);
+      throw error;
+    }
+  }
+}
@@ -288,6 +288,19 @@ export class CustomerImageRepository {
     }
   }
 
+  async findMetadataByIds(companyId: string, ids: string[]): Promise<CustomerImageMetadata[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.find(
+        { _id: { $in: ids.map(id => ObjectId.createFromHexString(id)) } } as any,
+        { projection: { fileId: 0 } }
+      ).toArray() as CustomerImageMetadata[];
+    } catch (error) {
+      logger.error("Failed to find image metadata by IDs", error);
+      throw error;
+    }
+  }
+
   async findAll(companyId: string): Promise<CustomerImageMetadata[]> {
     try {
       const collection = this.getCollection(companyId);
@@ -32,6 +32,17 @@ export class CustomerRepository {
     }
   }
 
+  async findByIds(companyId: string, ids: string[]): Promise<CustomerDb[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      const objectIds = ids.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+      return await collection.find({ _id: { $in: objectIds } } as any).toArray();
+    } catch (error) {
+      logger.error("Failed to fetch customers by IDs", error);
+      throw error;
+    }
+  }
+
   async getAll(companyId: string, status?: CustomerStatus): Promise<CustomerDb[]> {
     try {
       const collection = this.getCollection(companyId);
@@ -0,0 +1,72 @@
+import { Collection, ObjectId } from "mongodb";
+import { Timestamp } from "firebase-admin/firestore";
+import { getDatabaseForCompany } from "@/config/database";
+import type { ExchangeRate, ListExchangeRatesQuery } from "@/types/company/exchange_rate";
+import { logger } from "@/utils/logger";
+
+export class ExchangeRateRepository {
+  private getCollection(companyId: string): Collection<ExchangeRate> {
+    const db = getDatabaseForCompany(companyId);
+    return db.collection<ExchangeRate>("exchange_rates");
+  }
+
+  async create(companyId: string, entry: ExchangeRate): Promise<ExchangeRate> {
+    try {
+      const collection = this.getCollection(companyId);
+      const { _id, ...entryToInsert } = entry;
+      const result = await collection.insertOne(entryToInsert as any);
+      entry._id = result.insertedId;
+      logger.info("Exchange rates recorded", { exchangeRateId: result.insertedId, companyId });
+      return entry;
+    } catch (error) {
+      logger.error("Failed to create exchange rate entry", error);
+      throw error;
+    }
+  }
+
+  async findById(companyId: string, id: string): Promise<ExchangeRate | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.findOne({ _id: new ObjectId(id) });
+    } catch (error) {
+      logger.error("Failed to find exchange rate entry by ID", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Most recent entry that is already in effect; entries dated in the future are skipped.
+   */
+  async findLatest(companyId: string, at: Timestamp = Timestamp.now()): Promise<ExchangeRate | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.findOne(
+        { effectiveAt: { $lte: at } } as any,
+        { sort: { effectiveAt: -1, _id: -1 } }
+      );
+    } catch (error) {
+      logger.error("Failed to find latest exchange rates", error);
+      throw error;
+    }
+  }
+
+  async findAll(
+    companyId: string,
+    options: ListExchangeRatesQuery
+  ): Promise<{ entries: ExchangeRate[]; total: number }> {
+    try {
+      const collection = this.getCollection(companyId);
+      const skip = (options.page - 1) * options.limit;
+
+      const [entries, total] = await Promise.all([
+        collection.find({}).sort({ effectiveAt: -1, _id: -1 }).skip(skip).limit(options.limit).toArray(),
+        collection.countDocuments({}),
+      ]);
+
+      return { entries, total };
+    } catch (error) {
+      logger.error("Failed to fetch exchange rate history", error);
+      throw error;
+    }
+  }
+}
@@ -36,6 +36,17 @@ export class ProductRepository {
     }
   }
 
+  async findByIds(ids: string[]): Promise<Product[]> {
+    try {
+      const collection = this.getCollection();
+      const objectIds = ids.map(id => new ObjectId(id));
+      return await collection.find({ _id: { $in: objectIds } }).toArray();
+    } catch (error) {
+      logger.error("Failed to fetch products by IDs", error);
+      throw error;
+    }
+  }
+
   /**
    * KEY METHOD: Find products by allowed vendor IDs
    * Used when company requests product list
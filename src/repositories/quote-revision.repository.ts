@@ -0,0 +1,89 @@
+import { Collection, MongoServerError } from "mongodb";
+import { getDatabaseForCompany } from "@/config/database";
+import type { QuoteRevision, QuoteRevisionSummary } from "@/types/quotes/quote_revision";
+import { logger } from "@/utils/logger";
+
+const MAX_CREATE_ATTEMPTS = 5;
+
+export class QuoteRevisionRepository {
+  private getCollection(companyId: string): Collection<QuoteRevision> {
+    const db = getDatabaseForCompany(companyId);
+    return db.collection<QuoteRevision>("quote_revisions");
+  }
+
+  /**
+   * Store the revision under the quote's next revision number. Concurrent saves can race for the
+   * same number (unique per quote), in which case the number is re-read and the insert retried.
+   */
+  async createNext(companyId: string, revision: Omit<QuoteRevision, "revision">): Promise<QuoteRevision> {
+    try {
+      const collection = this.getCollection(companyId);
+      const { _id, ...revisionToInsert } = revision;
+
+      for (let attempt = 1; ; attempt++) {
+        const number = (await this.getLatestRevisionNumber(companyId, revision.quoteId)) + 1;
+        try {
+          const result = await collection.insertOne({ ...revisionToInsert, revision: number } as any);
+          logger.debug("Quote revision created", { quoteId: revision.quoteId, revision: number, companyId });
+          return { ...revision, _id: result.insertedId, revision: number };
+        } catch (error) {
+          if (!(error instanceof MongoServerError && error.code === 11000) || attempt >= MAX_CREATE_ATTEMPTS) throw error;
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to create quote revision", error);
+      throw error;
+    }
+  }
+
+  /**
+   * List revisions for a quote (newest first), without room/item and option payloads
+   */
+  async findSummariesByQuoteId(companyId: string, quoteId: string): Promise<QuoteRevisionSummary[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection
+        .find({ quoteId }, { projection: { rooms: 0, options: 0, conversions: 0 } })
+        .sort({ revision: -1 })
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to fetch quote revisions", error);
+      throw error;
+    }
+  }
+
+  async findByRevision(companyId: string, quoteId: string, revision: number): Promise<QuoteRevision | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.findOne({ quoteId, revision });
+    } catch (error) {
+      logger.error("Failed to find quote revision", error);
+      throw error;
+    }
+  }
+
+  async deleteByQuoteId(companyId: string, quoteId: string): Promise<number> {
+    try {
+      const collection = this.getCollection(companyId);
+      const result = await collection.deleteMany({ quoteId });
+      return result.deletedCount;
+    } catch (error) {
+      logger.error("Failed to delete quote revisions", error);
+      throw error;
+    }
+  }
+
+  async getLatestRevisionNumber(companyId: string, quoteId: string): Promise<number> {
+    try {
+      const collection = this.getCollection(companyId);
+      const latest = await collection.findOne(
+        { quoteId },
+        { sort: { revision: -1 }, projection: { revision: 1 } }
+      );
+      return latest?.revision ?? 0;
+    } catch (error) {
+      logger.error("Failed to get latest quote revision number", error);
+      throw error;
+    }
+  }
+}
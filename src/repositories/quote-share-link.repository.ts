@@ -0,0 +1,66 @@
+import { Collection, ObjectId } from "mongodb";
+import { getCoreDatabase } from "@/config/database";
+import type { QuoteShareLink } from "@/types/quotes/quote_share_link";
+import { logger } from "@/utils/logger";
+import { Timestamp } from "firebase-admin/firestore";
+
+export class QuoteShareLinkRepository {
+  private getCollection(): Collection<QuoteShareLink> {
+    return getCoreDatabase().collection<QuoteShareLink>("quote_share_links");
+  }
+
+  async create(link: Omit<QuoteShareLink, "_id">): Promise<QuoteShareLink> {
+    try {
+      const result = await this.getCollection().insertOne(link as any);
+      logger.info("Quote share link created", { linkId: result.insertedId, quoteId: link.quoteId });
+      return { ...link, _id: result.insertedId };
+    } catch (error) {
+      logger.error("Failed to create quote share link", error);
+      throw error;
+    }
+  }
+
+  async findByToken(token: string): Promise<QuoteShareLink | null> {
+    try {
+      return await this.getCollection().findOne({ token });
+    } catch (error) {
+      logger.error("Failed to find quote share link by token", error);
+      throw error;
+    }
+  }
+
+  async findByQuoteId(companyId: string, quoteId: string): Promise<QuoteShareLink[]> {
+    try {
+      return await this.getCollection()
+        .find({ companyId, quoteId })
+        .sort({ createdAt: -1 })
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to fetch quote share links", error);
+      throw error;
+    }
+  }
+
+  async revoke(companyId: string, quoteId: string, linkId: string, userId: string): Promise<QuoteShareLink | null> {
+    try {
+      return await this.getCollection().findOneAndUpdate(
+        { _id: new ObjectId(linkId), companyId, quoteId } as any,
+        { $set: { revokedAt: Timestamp.now(), revokedByUserId: userId } },
+        { returnDocument: "after" }
+      );
+    } catch (error) {
+      logger.error("Failed to revoke quote share link", error);
+      throw error;
+    }
+  }
+
+  async deleteByQuoteId(companyId: string, quoteId: string): Promise<number> {
+    try {
+      const result = await this.getCollection().deleteMany({ companyId, quoteId });
+      return result.deletedCount;
+    } catch (error) {
+      logger.error("Failed to delete quote share links", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it, mock } from "bun:test";
+import { ObjectId } from "mongodb";
+import { Timestamp } from "firebase-admin/firestore";
+import type { QuoteComment } from "@/types/quotes/quote";
+
+process.env.MONGODB_URI ??= "mongodb://localhost:27017";
+process.env.FIREBASE_SERVICE_ACCOUNT_PATH ??= "firebase-service-account.json";
+
+const calls: { filter: any; update: any }[] = [];
+
+mock.module("@/config/database", () => ({
+  getDatabaseForCompany: () => ({
+    collection: () => ({
+      findOneAndUpdate: async (filter: any, update: any) => {
+        calls.push({ filter, update });
+        return { _id: filter._id, comments: [update.$push.comments], version: 1 + update.$inc.version };
+      },
+    }),
+  }),
+}));
+
+const { QuoteRepository } = await import("@/repositories/quote.repository");
+
+describe("QuoteRepository.addComment", () => {
+  it("pushes the comment and bumps the version", async () => {
+    const id = new ObjectId().toHexString();
+    const comment: QuoteComment = {
+      id: new ObjectId().toHexString(),
+      userId: "user-1",
+      userName: "Test User",
+      message: "Fiyatı tekrar kontrol edelim.",
+      createdAt: Timestamp.now(),
+    };
+
+    const updated = await new QuoteRepository().addComment("company-1", id, comment);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.filter._id.toHexString()).toBe(id);
+    expect(calls[0]!.update.$push).toEqual({ comments: comment });
+    expect(calls[0]!.update.$inc).toEqual({ version: 1 });
+    expect(updated?.version).toBe(2);
+  });
+});
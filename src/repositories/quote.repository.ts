@@ -1,6 +1,13 @@
 import { Collection, ObjectId, ClientSession } from "mongodb";
 import { getDatabaseForCompany } from "@/config/database";
-import type { Quote } from "@/types/quotes/quote";
+import {
+  EXPIRABLE_QUOTE_STATUSES,
+  type ListQuotesQuery,
+  type Quote,
+  type QuoteComment,
+  type QuoteStatus,
+} from "@/types/quotes/quote";
+import { escapeRegExp } from "es-toolkit";
 import { logger } from "@/utils/logger";
 import { Timestamp } from "firebase-admin/firestore";
 
@@ -35,33 +42,93 @@ export class QuoteRepository {
 
   async findAll(
     companyId: string,
-    filter: { creatorId?: string } = {}
-  ): Promise<Quote[]> {
+    options: ListQuotesQuery
+  ): Promise<{ quotes: Quote[]; total: number }> {
     try {
       const collection = this.getCollection(companyId);
+      const { page, limit, sortBy, sortOrder } = options;
+      const skip = (page - 1) * limit;
+
+      // Build query
       const query: any = {};
-      if (filter.creatorId) {
-        query.creatorId = filter.creatorId;
+
+      if (options.status?.length) {
+        query.status = { $in: options.status };
+      } else if (!options.includeArchived && !options.search) {
+        // Archived quotes only show up when asked for or searched
+        query.status = { $ne: "archived" };
+      }
+
+      if (options.customerId) {
+        query.customerId = new ObjectId(options.customerId);
+      }
+
+      if (options.creatorId) {
+        query.creatorId = options.creatorId;
+      }
+
+      if (options.createdFrom || options.createdTo) {
+        query.createdAt = {};
+        if (options.createdFrom) query.createdAt.$gte = Timestamp.fromDate(options.createdFrom);
+        if (options.createdTo) query.createdAt.$lte = Timestamp.fromDate(options.createdTo);
+      }
+
+      if (options.minTotal !== undefined || options.maxTotal !== undefined) {
+        query.total = {};
+        if (options.minTotal !== undefined) query.total.$gte = options.minTotal;
+        if (options.maxTotal !== undefined) query.total.$lte = options.maxTotal;
+      }
+
+      if (options.search) {
+        const pattern = escapeRegExp(options.search);
+        query.$or = [
+          { quoteNumber: { $regex: pattern, $options: "i" } },
+          { customerName: { $regex: pattern, $options: "i" } },
+        ];
       }
-      return await collection.find(query).sort({ createdAt: -1 }).toArray();
+
+      // Execute queries in parallel
+      const [quotes, total] = await Promise.all([
+        collection
+          .find(query)
+          .sort({ [sortBy]: sortOrder === "asc" ? 1 : -1, _id: -1 })
+          .skip(skip)
+          .limit(limit)
+          .toArray(),
+        collection.countDocuments(query),
+      ]);
+
+      logger.debug("Quotes fetched", { companyId, count: quotes.length, total });
+
+      return { quotes, total };
     } catch (error) {
       logger.error("Failed to fetch quotes", error);
       throw error;
     }
   }
 
+  /**
+   * Every update bumps the quote's version. With `expectedVersion`, nothing is written (and null is
+   * returned) unless the stored version still matches.
+   */
   async update(
     companyId: string,
     id: string,
     updates: Partial<Quote>,
-    session?: ClientSession
+    options: { expectedVersion?: number; session?: ClientSession } = {}
   ): Promise<Quote | null> {
     try {
       const collection = this.getCollection(companyId);
+      const filter: any = { _id: new ObjectId(id) };
+      if (options.expectedVersion !== undefined) {
+        // Quotes created before versioning have no version field and count as version 0
+        filter.version = options.expectedVersion === 0 ? { $in: [0, null] } : options.expectedVersion;
+      }
+
       const result = await collection.findOneAndUpdate(
-        { _id: new ObjectId(id) } as any,
-        { $set: { ...updates, updatedAt: Timestamp.now() } },
-        { returnDocument: "after", session }
+        filter,
+        { $set: { ...updates, updatedAt: Timestamp.now() }, $inc: { version: 1 } },
+        { returnDocument: "after", session: options.session }
       );
 
       if (result) {
@@ -75,10 +142,110 @@ export class QuoteRepository {
     }
   }
 
-  async delete(companyId: string, id: string): Promise<boolean> {
+  /**
+   * Atomically apply updates only if the quote is still in the expected status.
+   * Returns null when the quote does not exist or its status has already changed.
+   */
+  async updateIfStatus(
+    companyId: string,
+    id: string,
+    expectedStatus: QuoteStatus,
+    updates: Partial<Quote>
+  ): Promise<Quote | null> {
     try {
       const collection = this.getCollection(companyId);
-      const result = await collection.deleteOne({ _id: new ObjectId(id) } as any);
+      const result = await collection.findOneAndUpdate(
+        { _id: new ObjectId(id), status: expectedStatus } as any,
+        { $set: { ...updates, updatedAt: Timestamp.now() }, $inc: { version: 1 } },
+        { returnDocument: "after" }
+      );
+
+      if (result) {
+        logger.info("Quote updated", { quoteId: id, companyId, fromStatus: expectedStatus });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error("Failed to update quote by status", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the customer's answer only if the quote has not been answered yet and is still in the
+   * expected status. Returns null otherwise.
+   */
+  async setCustomerResponse(
+    companyId: string,
+    id: string,
+    expectedStatus: QuoteStatus,
+    updates: Partial<Quote>
+  ): Promise<Quote | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.findOneAndUpdate(
+        { _id: new ObjectId(id), status: expectedStatus, customerResponse: null } as any,
+        { $set: { ...updates, updatedAt: Timestamp.now() }, $inc: { version: 1 } },
+        { returnDocument: "after" }
+      );
+    } catch (error) {
+      logger.error("Failed to set quote customer response", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append a comment without rewriting the rest of the document
+   */
+  async addComment(companyId: string, id: string, comment: QuoteComment): Promise<Quote | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.findOneAndUpdate(
+        { _id: new ObjectId(id) } as any,
+        {
+          $push: { comments: comment } as any,
+          $set: { updatedAt: Timestamp.now() },
+          $inc: { version: 1 },
+        },
+        { returnDocument: "after" }
+      );
+    } catch (error) {
+      logger.error("Failed to add quote comment", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move every expirable quote whose validUntil has passed to "expired".
+   */
+  async expireOverdue(companyId: string): Promise<number> {
+    try {
+      const collection = this.getCollection(companyId);
+      const now = Timestamp.now();
+      const result = await collection.updateMany(
+        { companyId, status: { $in: EXPIRABLE_QUOTE_STATUSES }, validUntil: { $lt: now } } as any,
+        { $set: { status: "expired", updatedAt: now }, $inc: { version: 1 } }
+      );
+
+      if (result.modifiedCount > 0) {
+        logger.info("Quotes expired", { count: result.modifiedCount, companyId });
+      }
+
+      return result.modifiedCount;
+    } catch (error) {
+      logger.error("Failed to expire overdue quotes", error);
+      throw error;
+    }
+  }
+
+  async delete(companyId: string, id: string, expectedStatus?: QuoteStatus): Promise<boolean> {
+    try {
+      const collection = this.getCollection(companyId);
+      const filter: any = { _id: new ObjectId(id) };
+      if (expectedStatus) {
+        filter.status = expectedStatus;
+      }
+      const result = await collection.deleteOne(filter);
       return result.deletedCount > 0;
     } catch (error) {
       logger.error("Failed to delete quote", error);
@@ -86,15 +253,25 @@ export class QuoteRepository {
     }
   }
 
-  async getNextQuoteNumber(companyId: string): Promise<string> {
+  /**
+   * Highest sequence number among quotes numbered `${numberPrefix}<digits>`, or 0 if there are none
+   */
+  async findHighestNumberSequence(companyId: string, numberPrefix: string): Promise<number> {
     try {
       const collection = this.getCollection(companyId);
-      const count = await collection.countDocuments();
-      const nextNumber = (count + 1).toString().padStart(4, "0");
-      const year = new Date().getFullYear();
-      return `QT-${year}-${nextNumber}`;
+      const quotes = await collection
+        .find(
+          { quoteNumber: { $regex: `^${escapeRegExp(numberPrefix)}\\d+$` } },
+          { projection: { quoteNumber: 1 } }
+        )
+        .toArray();
+
+      return quotes.reduce(
+        (max, q) => Math.max(max, parseInt(q.quoteNumber.slice(numberPrefix.length), 10)),
+        0
+      );
     } catch (error) {
-      logger.error("Failed to get next quote number", error);
+      logger.error("Failed to find highest quote number", error);
       throw error;
     }
   }
@@ -0,0 +1,76 @@
+import { Collection, ObjectId } from "mongodb";
+import { getDatabaseForCompany } from "@/config/database";
+import type { RoomTemplate } from "@/types/quotes/room_template";
+import { logger } from "@/utils/logger";
+
+export class RoomTemplateRepository {
+  private getCollection(companyId: string): Collection<RoomTemplate> {
+    const db = getDatabaseForCompany(companyId);
+    return db.collection<RoomTemplate>("room_templates");
+  }
+
+  async create(companyId: string, template: RoomTemplate): Promise<RoomTemplate> {
+    try {
+      const collection = this.getCollection(companyId);
+      const { _id, ...templateToInsert } = template;
+      const result = await collection.insertOne(templateToInsert as any);
+      template._id = result.insertedId;
+      logger.info("Room template created", { templateId: result.insertedId, companyId });
+      return template;
+    } catch (error) {
+      logger.error("Failed to create room template", error);
+      throw error;
+    }
+  }
+
+  async findById(companyId: string, id: string): Promise<RoomTemplate | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.findOne({ _id: new ObjectId(id) });
+    } catch (error) {
+      logger.error("Failed to find room template by ID", error);
+      throw error;
+    }
+  }
+
+  async findAll(companyId: string): Promise<RoomTemplate[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.find({}).sort({ name: 1 }).toArray();
+    } catch (error) {
+      logger.error("Failed to fetch room templates", error);
+      throw error;
+    }
+  }
+
+  async update(companyId: string, id: string, updates: Partial<RoomTemplate>): Promise<RoomTemplate | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      const result = await collection.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: updates },
+        { returnDocument: "after" }
+      );
+
+      if (result) {
+        logger.info("Room template updated", { templateId: id, companyId });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error("Failed to update room template", error);
+      throw error;
+    }
+  }
+
+  async delete(companyId: string, id: string): Promise<boolean> {
+    try {
+      const collection = this.getCollection(companyId);
+      const result = await collection.deleteOne({ _id: new ObjectId(id) });
+      return result.deletedCount > 0;
+    } catch (error) {
+      logger.error("Failed to delete room template", error);
+      throw error;
+    }
+  }
+}
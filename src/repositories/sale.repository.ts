@@ -1,9 +1,52 @@
 import { Collection, ObjectId, ClientSession } from "mongodb";
 import { getDatabaseForCompany } from "@/config/database";
-import type { Sale, SaleStatus } from "@/types/customer/sale/sale";
+import type { Sale } from "@/types/customer/sale/sale";
 import type { PaymentLog } from "@/types/customer/sale/payment_log";
 import { logger } from "@/utils/logger";
 import { Timestamp } from "firebase-admin/firestore";
+import { calculateSaleTotals } from "@/utils/sale-payments";
+import type {
+  CollectionsAggregate,
+  ReportGranularity,
+  RevenueAggregate,
+} from "@/types/customer/sale/sales_report";
+
+interface ReportRange {
+  from: Timestamp;
+  to: Timestamp; // Exclusive
+  groupBy: ReportGranularity;
+  timezone: string;
+}
+
+// Stored timestamps are {_seconds, _nanoseconds} objects
+const toDate = (field: string) => ({ $toDate: { $multiply: [`${field}._seconds`, 1000] } });
+
+/**
+ * Facets shared by the revenue and collection reports. Expects documents shaped as
+ * { date, currency, amount, userId, userName }.
+ */
+function reportFacets({ groupBy, timezone }: ReportRange) {
+  const sum = { amount: { $sum: "$amount" }, count: { $sum: 1 } };
+  return {
+    byPeriod: [
+      {
+        $group: {
+          _id: {
+            period: { $dateTrunc: { date: "$date", unit: groupBy, timezone, startOfWeek: "monday" } },
+            currency: "$currency",
+          },
+          ...sum,
+        },
+      },
+      { $sort: { "_id.period": 1 as const, "_id.currency": 1 as const } },
+    ],
+    byUser: [
+      { $group: { _id: { userId: "$userId", currency: "$currency" }, userName: { $last: "$userName" }, ...sum } },
+      { $sort: { amount: -1 as const } },
+    ],
+    byCurrency: [{ $group: { _id: { currency: "$currency" }, ...sum } }, { $sort: { "_id.currency": 1 as const } }],
+  };
+}
 
 export class SaleRepository {
   private getCollection(companyId: string): Collection<Sale> {
@@ -48,6 +91,21 @@ export class SaleRepository {
     }
   }
 
+  /**
+   * Pending sales with at least one installment due before the given date
+   */
+  async findWithInstallmentsDueBefore(companyId: string, before: Timestamp): Promise<Sale[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection
+        .find({ status: "pending", "installments.dueDate": { $lt: before } } as any)
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to fetch sales with due installments", error);
+      throw error;
+    }
+  }
+
   async update(
     companyId: string,
     id: string,
@@ -114,9 +172,8 @@ export class SaleRepository {
       const sale = await this.findById(companyId, saleId);
       if (!sale) return null;
 
-      // Calculate new totalPaidAmount
-      const newTotalPaid = sale.totalPaidAmount + paymentLog.amount;
-      const newStatus: SaleStatus = newTotalPaid >= sale.totalAmount ? "completed" : "pending";
+      // Recalculate totalPaidAmount from the converted amounts of all logs
+      const { totalPaidAmount, status } = calculateSaleTotals(sale.totalAmount, [...sale.logs, paymentLog]);
 
       // Update sale with new log and recalculated values
       return await collection.findOneAndUpdate(
@@ -124,8 +181,8 @@ export class SaleRepository {
         {
           $push: { logs: paymentLog } as any,
           $set: {
-            totalPaidAmount: Math.round(newTotalPaid * 100) / 100,
-            status: newStatus,
+            totalPaidAmount,
+            status,
             updatedAt: Timestamp.now(),
           },
         },
@@ -144,7 +201,9 @@ export class SaleRepository {
     companyId: string,
     saleId: string,
     logId: string,
-    updates: Partial<Pick<PaymentLog, "amount" | "currency" | "paymentType" | "description" | "createdAt">>
+    updates: Partial<
+      Pick<PaymentLog, "amount" | "currency" | "exchangeRate" | "convertedAmount" | "paymentType" | "description" | "createdAt">
+    >
   ): Promise<Sale | null> {
     try {
       const collection = this.getCollection(companyId);
@@ -157,24 +216,20 @@ export class SaleRepository {
       const logIndex = sale.logs.findIndex((log) => log._id?.toString() === logId);
       if (logIndex === -1) return null;
 
-      const oldAmount = sale.logs[logIndex]!.amount;
-      const newAmount = updates.amount ?? oldAmount;
-
       // Update log in array
       const updatedLogs = [...sale.logs];
       updatedLogs[logIndex] = { ...updatedLogs[logIndex]!, ...updates } as PaymentLog;
 
       // Recalculate totalPaidAmount
-      const newTotalPaid = sale.totalPaidAmount - oldAmount + newAmount;
-      const newStatus: SaleStatus = newTotalPaid >= sale.totalAmount ? "completed" : "pending";
+      const { totalPaidAmount, status } = calculateSaleTotals(sale.totalAmount, updatedLogs);
 
       return await collection.findOneAndUpdate(
         { _id: new ObjectId(saleId) } as any,
         {
           $set: {
             logs: updatedLogs,
-            totalPaidAmount: Math.round(newTotalPaid * 100) / 100,
-            status: newStatus,
+            totalPaidAmount,
+            status,
             updatedAt: Timestamp.now(),
           },
         },
@@ -206,16 +261,18 @@ export class SaleRepository {
       if (!log) return null;
 
       // Recalculate totalPaidAmount
-      const newTotalPaid = sale.totalPaidAmount - log.amount;
-      const newStatus: SaleStatus = newTotalPaid >= sale.totalAmount ? "completed" : "pending";
+      const { totalPaidAmount, status } = calculateSaleTotals(
+        sale.totalAmount,
+        sale.logs.filter((l) => l !== log)
+      );
 
       return await collection.findOneAndUpdate(
         { _id: new ObjectId(saleId) } as any,
         {
           $pull: { logs: { _id: log._id } } as any,
           $set: {
-            totalPaidAmount: Math.round(newTotalPaid * 100) / 100,
-            status: newStatus,
+            totalPaidAmount,
+            status,
             updatedAt: Timestamp.now(),
           },
         },
@@ -227,6 +284,145 @@ export class SaleRepository {
     }
   }
 
+  /**
+   * Balance fields of all pending sales across customers (payment logs are left out)
+   */
+  async findPendingBalances(
+    companyId: string
+  ): Promise<Pick<Sale, "_id" | "customerId" | "currency" | "totalAmount" | "totalPaidAmount" | "createdAt">[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection
+        .find(
+          { status: "pending" } as any,
+          { projection: { customerId: 1, currency: 1, totalAmount: 1, totalPaidAmount: 1, createdAt: 1 } }
+        )
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to fetch pending sale balances", error);
+      throw error;
+    }
+  }
+
+  /**
+   * All sales that have not been deleted, oldest first
+   */
+  async findAllActive(companyId: string): Promise<Sale[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection
+        .find({ status: { $ne: "deleted" } } as any)
+        .sort({ createdAt: 1 })
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to fetch active sales", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply per-sale updates in a single round trip. Each update only applies if the sale has not
+   * been written since it was read (same `updatedAt`); returns the number of sales updated.
+   */
+  async bulkUpdateIfUnchanged(
+    companyId: string,
+    updates: { id: ObjectId; updatedAt: Timestamp | undefined; set: Partial<Sale> }[]
+  ): Promise<number> {
+    try {
+      if (updates.length === 0) return 0;
+
+      const collection = this.getCollection(companyId);
+      const operations = updates.map(({ id, updatedAt, set }) => ({
+        updateOne: {
+          filter: { _id: id, updatedAt: updatedAt ?? null } as any,
+          update: { $set: { ...set, updatedAt: Timestamp.now() } },
+        },
+      }));
+
+      const result = await collection.bulkWrite(operations);
+      logger.info("Sales bulk updated", { count: result.matchedCount, skipped: updates.length - result.matchedCount, companyId });
+      return result.matchedCount;
+    } catch (error) {
+      logger.error("Failed to bulk update sales", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sale totals created within the range, grouped by period, user and currency
+   */
+  async aggregateRevenue(companyId: string, range: ReportRange): Promise<RevenueAggregate> {
+    try {
+      const collection = this.getCollection(companyId);
+      const pipeline = [
+        { $match: { status: { $ne: "deleted" }, createdAt: { $gte: range.from, $lt: range.to } } },
+        {
+          $project: {
+            date: toDate("$createdAt"),
+            currency: 1,
+            amount: "$totalAmount",
+            userId: "$createdByUserId",
+            userName: "$createdByUserName",
+          },
+        },
+        { $facet: reportFacets(range) },
+      ];
+
+      const [result] = await collection.aggregate<RevenueAggregate>(pipeline).toArray();
+      return result!;
+    } catch (error) {
+      logger.error("Failed to aggregate sales revenue", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Payments dated within the range, in the sale currency, grouped by period, user, payment type
+   * and currency
+   */
+  async aggregateCollections(companyId: string, range: ReportRange): Promise<CollectionsAggregate> {
+    try {
+      const collection = this.getCollection(companyId);
+      const inRange = { "logs.createdAt": { $gte: range.from, $lt: range.to } };
+      const pipeline = [
+        { $match: { status: { $ne: "deleted" }, ...inRange } },
+        { $unwind: "$logs" },
+        { $match: inRange },
+        {
+          $project: {
+            date: toDate("$logs.createdAt"),
+            currency: 1,
+            amount: { $ifNull: ["$logs.convertedAmount", "$logs.amount"] },
+            userId: "$logs.createdByUserId",
+            userName: "$logs.createdByUserName",
+            paymentType: "$logs.paymentType",
+          },
+        },
+        {
+          $facet: {
+            ...reportFacets(range),
+            byPaymentType: [
+              {
+                $group: {
+                  _id: { paymentType: "$paymentType", currency: "$currency" },
+                  amount: { $sum: "$amount" },
+                  count: { $sum: 1 },
+                },
+              },
+              { $sort: { amount: -1 as const } },
+            ],
+          },
+        },
+      ];
+
+      const [result] = await collection.aggregate<CollectionsAggregate>(pipeline).toArray();
+      return result!;
+    } catch (error) {
+      logger.error("Failed to aggregate sale collections", error);
+      throw error;
+    }
+  }
+
   async exists(companyId: string, id: string): Promise<boolean> {
     try {
       const collection = this.getCollection(companyId);
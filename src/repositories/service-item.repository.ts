@@ -0,0 +1,91 @@
+import { Collection, ObjectId } from "mongodb";
+import { getDatabaseForCompany } from "@/config/database";
+import type { ServiceItem } from "@/types/quotes/service_item";
+import { logger } from "@/utils/logger";
+
+export class ServiceItemRepository {
+  private getCollection(companyId: string): Collection<ServiceItem> {
+    const db = getDatabaseForCompany(companyId);
+    return db.collection<ServiceItem>("service_items");
+  }
+
+  async create(companyId: string, item: ServiceItem): Promise<ServiceItem> {
+    try {
+      const collection = this.getCollection(companyId);
+      const { _id, ...itemToInsert } = item;
+      const result = await collection.insertOne(itemToInsert as any);
+      item._id = result.insertedId;
+      logger.info("Service item created", { serviceItemId: result.insertedId, companyId });
+      return item;
+    } catch (error) {
+      logger.error("Failed to create service item", error);
+      throw error;
+    }
+  }
+
+  async findById(companyId: string, id: string): Promise<ServiceItem | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      return await collection.findOne({ _id: new ObjectId(id) });
+    } catch (error) {
+      logger.error("Failed to find service item by ID", error);
+      throw error;
+    }
+  }
+
+  async findByIds(companyId: string, ids: string[]): Promise<ServiceItem[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      const objectIds = ids.map(id => new ObjectId(id));
+      return await collection.find({ _id: { $in: objectIds } }).toArray();
+    } catch (error) {
+      logger.error("Failed to fetch service items by IDs", error);
+      throw error;
+    }
+  }
+
+  async findAll(companyId: string, filter: { activeOnly?: boolean } = {}): Promise<ServiceItem[]> {
+    try {
+      const collection = this.getCollection(companyId);
+      const query: any = {};
+      if (filter.activeOnly) {
+        query.isActive = true;
+      }
+      return await collection.find(query).sort({ name: 1 }).toArray();
+    } catch (error) {
+      logger.error("Failed to fetch service items", error);
+      throw error;
+    }
+  }
+
+  async update(companyId: string, id: string, updates: Partial<ServiceItem>): Promise<ServiceItem | null> {
+    try {
+      const collection = this.getCollection(companyId);
+      const result = await collection.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: updates },
+        { returnDocument: "after" }
+      );
+
+      if (result) {
+        logger.info("Service item updated", { serviceItemId: id, companyId });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error("Failed to update service item", error);
+      throw error;
+    }
+  }
+
+  async delete(companyId: string, id: string): Promise<boolean> {
+    try {
+      const collection = this.getCollection(companyId);
+      const result = await collection.deleteOne({ _id: new ObjectId(id) });
+      return result.deletedCount > 0;
+    } catch (error) {
+      logger.error("Failed to delete service item", error);
+      throw error;
+    }
+  }
+}
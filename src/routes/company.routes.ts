@@ -5,6 +5,7 @@ import { successResponse } from "@/utils/response";
 import { z } from "zod";
 import { phoneNumberSchema } from "@/types/phone_number";
 import { type Env } from "@/types/hono";
+import { updateCompanyQuoteSettingsSchema } from "@/types/company/company";
 
 export const companyRoutes = new Hono<Env>();
 const companyService = new CompanyService();
@@ -102,6 +103,15 @@ companyRoutes.put("/name", async (c) => {
   return c.json(successResponse(company));
 });
 
+// PUT /companies/quote-settings - Update company-wide quote defaults (admin only)
+companyRoutes.put("/quote-settings", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json();
+  const input = updateCompanyQuoteSettingsSchema.parse(body);
+  const settings = await companyService.updateQuoteSettings(user._id!, input);
+  return c.json(successResponse(settings));
+});
+
 // DELETE /companies/me - Delete company (owner only)
 companyRoutes.delete("/me", async (c) => {
   const user = c.get("user");
@@ -0,0 +1,72 @@
+import { Hono } from "hono";
+import type { Env } from "@/types/hono";
+import { ExchangeRateService } from "@/services/exchange-rate.service";
+import { successResponse, paginatedResponse } from "@/utils/response";
+import { authMiddleware } from "@/middleware/auth";
+import {
+  createExchangeRateSchema,
+  listExchangeRatesQuerySchema,
+  type ExchangeRate,
+} from "@/types/company/exchange_rate";
+
+export const exchangeRateRoutes = new Hono<Env>();
+
+let service: ExchangeRateService | null = null;
+
+function getService(): ExchangeRateService {
+  if (!service) {
+    service = new ExchangeRateService();
+  }
+  return service;
+}
+
+// Apply auth middleware
+exchangeRateRoutes.use("*", authMiddleware);
+
+// GET /api/exchange-rates - Rate history, newest first
+exchangeRateRoutes.get("/", async (c) => {
+  const user = c.get("user");
+  const query = listExchangeRatesQuerySchema.parse(
+    Object.fromEntries(new URL(c.req.url).searchParams)
+  );
+
+  const { entries, total } = await getService().listRates(user.companyId!, query);
+  return c.json(paginatedResponse<ExchangeRate>(entries, query.page, query.limit, total));
+});
+
+// GET /api/exchange-rates/latest - Rates currently in effect (null if none recorded)
+exchangeRateRoutes.get("/latest", async (c) => {
+  const user = c.get("user");
+  const entry = await getService().getLatestRates(user.companyId!);
+  return c.json(successResponse(entry));
+});
+
+// GET /api/exchange-rates/providers - Names of rate providers available for import
+exchangeRateRoutes.get("/providers", async (c) => {
+  return c.json(successResponse(getService().listProviders()));
+});
+
+// GET /api/exchange-rates/:id - Get single rate entry
+exchangeRateRoutes.get("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const entry = await getService().getRates(user.companyId!, id);
+  return c.json(successResponse(entry));
+});
+
+// POST /api/exchange-rates - Record new rates (admin only)
+exchangeRateRoutes.post("/", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json();
+  const input = createExchangeRateSchema.parse(body);
+  const entry = await getService().createRates(user.companyId!, user._id!, user.role, input);
+  return c.json(successResponse(entry), 201);
+});
+
+// POST /api/exchange-rates/import/:provider - Record rates fetched from a provider (admin only)
+exchangeRateRoutes.post("/import/:provider", async (c) => {
+  const user = c.get("user");
+  const provider = c.req.param("provider");
+  const entry = await getService().importRates(user.companyId!, user._id!, user.role, provider);
+  return c.json(successResponse(entry), 201);
+});
@@ -1,10 +1,14 @@
 import { Hono } from "hono";
 import { VendorAttachmentService } from "@/services/vendor-attachment.service";
+import { QuoteShareService } from "@/services/quote-share.service";
+import { successResponse } from "@/utils/response";
+import { respondToQuoteSchema } from "@/types/quotes/quote_share_link";
 import { Binary } from "mongodb";
 
 export const publicRoutes = new Hono();
 
 let attachmentService: VendorAttachmentService | null = null;
+let quoteShareService: QuoteShareService | null = null;
 
 function getAttachmentService(): VendorAttachmentService {
   if (!attachmentService) {
@@ -13,6 +17,13 @@ function getAttachmentService(): VendorAttachmentService {
   return attachmentService;
 }
 
+function getQuoteShareService(): QuoteShareService {
+  if (!quoteShareService) {
+    quoteShareService = new QuoteShareService();
+  }
+  return quoteShareService;
+}
+
 // GET /api/public/attachments/:attachmentId - Public attachment preview (no auth)
 publicRoutes.get("/attachments/:attachmentId", async (c) => {
   const attachmentId = c.req.param("attachmentId");
@@ -32,3 +43,39 @@ publicRoutes.get("/attachments/:attachmentId", async (c) => {
     },
   });
 });
+
+// GET /api/public/quotes/:token - Read-only quote view for the customer (no auth)
+publicRoutes.get("/quotes/:token", async (c) => {
+  const token = c.req.param("token");
+
+  const quote = await getQuoteShareService().getPublicQuote(token);
+  return c.json(successResponse(quote));
+});
+
+// GET /api/public/quotes/:token/pdf - Quote PDF for the customer (no auth)
+publicRoutes.get("/quotes/:token/pdf", async (c) => {
+  const token = c.req.param("token");
+
+  const { buffer, filename } = await getQuoteShareService().getPublicQuotePdf(token);
+
+  return new Response(buffer, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Length": buffer.length.toString(),
+      "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    },
+  });
+});
+
+// POST /api/public/quotes/:token/respond - Customer accepts or rejects the quote (no auth)
+publicRoutes.post("/quotes/:token/respond", async (c) => {
+  const token = c.req.param("token");
+  const body = await c.req.json();
+  const input = respondToQuoteSchema.parse(body);
+
+  const quote = await getQuoteShareService().respondToQuote(token, input);
+  return c.json(successResponse(quote));
+});
@@ -1,22 +1,47 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import type { Env } from "@/types/hono";
+import type { FIUser } from "@/types/user/fi_user";
 import { QuoteService } from "@/services/quote.service";
-import { successResponse } from "@/utils/response";
+import { QuoteShareService } from "@/services/quote-share.service";
+import { successResponse, paginatedResponse } from "@/utils/response";
 import { authMiddleware } from "@/middleware/auth";
+import { AppError } from "@/middleware/error-handler";
+import { z } from "zod";
+import { toResponse, toResponseArray } from "@/utils/response-transformer";
 import {
   createQuoteSchema,
   updateQuoteCustomerSchema,
   updateQuoteConversionsSchema,
   addRoomSchema,
   updateRoomNameSchema,
+  setRoomImagesSchema,
   addItemsToRoomSchema,
   updateQuoteItemSchema,
-  type Quote
+  convertQuoteToSaleSchema,
+  updateRoomDiscountSchema,
+  updateQuotePricingSchema,
+  extendQuoteSchema,
+  approveQuoteSchema,
+  denyQuoteSchema,
+  addQuoteCommentSchema,
+  listQuotesQuerySchema,
+  refreshQuotePricesSchema,
+  addCustomItemsToRoomSchema,
+  addQuoteOptionSchema,
+  duplicateQuoteSchema,
+  closeQuoteSchema,
+  renameQuoteOptionSchema,
+  type Quote,
+  type QuoteActor
 } from "@/types/quotes/quote";
+import { quoteRevisionDiffQuerySchema } from "@/types/quotes/quote_revision";
+import { createShareLinkSchema } from "@/types/quotes/quote_share_link";
+import { addRoomFromTemplateSchema } from "@/types/quotes/room_template";
 
 export const quoteRoutes = new Hono<Env>();
 
 let service: QuoteService | null = null;
+let shareService: QuoteShareService | null = null;
 
 function getService(): QuoteService {
   if (!service) {
@@ -25,6 +50,32 @@ function getService(): QuoteService {
   return service;
 }
 
+function getShareService(): QuoteShareService {
+  if (!shareService) {
+    shareService = new QuoteShareService();
+  }
+  return shareService;
+}
+
+function toActor(user: FIUser): QuoteActor {
+  return { id: user._id, name: `${user.name} ${user.surname}`, role: user.role };
+}
+
+/**
+ * The quote version the client last saw, sent as `If-Match: "<version>"`. Without it, writes are
+ * still checked against the version read by the same request.
+ */
+function getExpectedVersion(c: Context<Env>): number | undefined {
+  const header = c.req.header("If-Match");
+  if (!header || header === "*") return undefined;
+
+  const version = Number(header.replace(/^W\//, "").replace(/"/g, ""));
+  if (!Number.isInteger(version) || version < 0) {
+    throw new AppError(400, "If-Match must contain a quote version", "VALIDATION_ERROR");
+  }
+  return version;
+}
+
 // Apply auth middleware
 quoteRoutes.use("*", authMiddleware);
 
@@ -34,20 +85,19 @@ quoteRoutes.post("/", async (c) => {
   const body = await c.req.json();
   const { currency } = createQuoteSchema.parse(body);
 
-  const quote = await getService().createQuote(
-    user.companyId!,
-    user._id!,
-    `${user.name} ${user.surname}`,
-    currency
-  );
+  const quote = await getService().createQuote(user.companyId!, toActor(user), currency);
   return c.json(successResponse<Quote>(quote), 201);
 });
 
-// GET /api/quotes - List quotes (role-based)
+// GET /api/quotes - List quotes (role-based, filtered, sorted and paginated)
 quoteRoutes.get("/", async (c) => {
   const user = c.get("user");
-  const quotes = await getService().listQuotes(user.companyId!, user._id!, user.role);
-  return c.json(successResponse<Quote[]>(quotes));
+  const query = listQuotesQuerySchema.parse(
+    Object.fromEntries(new URL(c.req.url).searchParams)
+  );
+
+  const { quotes, total } = await getService().listQuotes(user.companyId!, user._id!, user.role, query);
+  return c.json(paginatedResponse<Quote>(quotes, query.page, query.limit, total));
 });
 
 // GET /api/quotes/:id - Get details
@@ -55,9 +105,99 @@ quoteRoutes.get("/:id", async (c) => {
   const user = c.get("user");
   const id = c.req.param("id");
   const quote = await getService().getQuote(user.companyId!, id);
+  c.header("ETag", `"${quote.version ?? 0}"`);
   return c.json(successResponse<Quote>(quote));
 });
 
+// GET /api/quotes/:id/pdf - Download quote as PDF
+quoteRoutes.get("/:id/pdf", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const { buffer, filename } = await getService().exportQuotePdf(user.companyId!, id);
+
+  return new Response(buffer, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Length": buffer.length.toString(),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+});
+
+// GET /api/quotes/:id/xlsx - Download quote as an Excel workbook
+quoteRoutes.get("/:id/xlsx", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const { buffer, filename } = await getService().exportQuoteXlsx(user.companyId!, id);
+
+  return new Response(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Length": buffer.length.toString(),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+});
+
+// POST /api/quotes/:id/duplicate - Create a new draft from this quote, optionally for another customer
+quoteRoutes.post("/:id/duplicate", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+  const input = duplicateQuoteSchema.parse(body);
+
+  const quote = await getService().duplicateQuote(user.companyId!, id, input, toActor(user));
+  return c.json(successResponse<Quote>(quote), 201);
+});
+
+// POST /api/quotes/:id/cancel - Cancel quote with a reason
+quoteRoutes.post("/:id/cancel", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = closeQuoteSchema.parse(body);
+
+  const quote = await getService().cancelQuote(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// POST /api/quotes/:id/archive - Archive quote with a reason (hidden from default listing)
+quoteRoutes.post("/:id/archive", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = closeQuoteSchema.parse(body);
+
+  const quote = await getService().archiveQuote(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// POST /api/quotes/:id/unarchive - Restore an archived quote to its previous status
+quoteRoutes.post("/:id/unarchive", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const quote = await getService().unarchiveQuote(user.companyId!, id, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// DELETE /api/quotes/:id - Delete draft quote (admin only)
+quoteRoutes.delete("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  await getService().deleteQuote(user.companyId!, id, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse({ message: "Quote deleted successfully" }));
+});
+
 // PATCH /api/quotes/:id/customer - Set customer
 quoteRoutes.patch("/:id/customer", async (c) => {
   const user = c.get("user");
@@ -65,7 +205,7 @@ quoteRoutes.patch("/:id/customer", async (c) => {
   const body = await c.req.json();
   const input = updateQuoteCustomerSchema.parse(body);
 
-  const quote = await getService().updateQuoteCustomer(user.companyId!, id, input);
+  const quote = await getService().updateQuoteCustomer(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
@@ -76,7 +216,7 @@ quoteRoutes.patch("/:id/currency", async (c) => {
   const body = await c.req.json();
   const { currency } = createQuoteSchema.parse(body);
 
-  const quote = await getService().updateQuoteCurrency(user.companyId!, id, currency);
+  const quote = await getService().updateQuoteCurrency(user.companyId!, id, currency, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
@@ -87,7 +227,18 @@ quoteRoutes.patch("/:id/conversions", async (c) => {
   const body = await c.req.json();
   const conversions = updateQuoteConversionsSchema.parse(body);
 
-  const quote = await getService().updateQuoteConversions(user.companyId!, id, conversions);
+  const quote = await getService().updateQuoteConversions(user.companyId!, id, conversions, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// PATCH /api/quotes/:id/pricing - Set quote-level discount and VAT rate
+quoteRoutes.patch("/:id/pricing", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = updateQuotePricingSchema.parse(body);
+
+  const quote = await getService().updateQuotePricing(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
@@ -98,7 +249,18 @@ quoteRoutes.post("/:id/rooms", async (c) => {
   const body = await c.req.json();
   const { name } = addRoomSchema.parse(body);
 
-  const quote = await getService().addRoom(user.companyId!, id, name);
+  const quote = await getService().addRoom(user.companyId!, id, name, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote), 201);
+});
+
+// POST /api/quotes/:id/rooms/from-template - Add room built from a company room template
+quoteRoutes.post("/:id/rooms/from-template", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = addRoomFromTemplateSchema.parse(body);
+
+  const quote = await getService().addRoomFromTemplate(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote), 201);
 });
 
@@ -110,7 +272,42 @@ quoteRoutes.patch("/:id/rooms/:roomId", async (c) => {
   const body = await c.req.json();
   const { name } = updateRoomNameSchema.parse(body);
 
-  const quote = await getService().updateRoomName(user.companyId!, id, roomId, name);
+  const quote = await getService().updateRoomName(user.companyId!, id, roomId, name, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// PUT /api/quotes/:id/rooms/:roomId/images - Link customer images to room (replaces current links)
+quoteRoutes.put("/:id/rooms/:roomId/images", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const roomId = c.req.param("roomId");
+  const body = await c.req.json();
+  const input = setRoomImagesSchema.parse(body);
+
+  const quote = await getService().setRoomImages(user.companyId!, id, roomId, input, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// DELETE /api/quotes/:id/rooms/:roomId/images/:imageId - Unlink image from room
+quoteRoutes.delete("/:id/rooms/:roomId/images/:imageId", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const roomId = c.req.param("roomId");
+  const imageId = c.req.param("imageId");
+
+  const quote = await getService().removeRoomImage(user.companyId!, id, roomId, imageId, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// PATCH /api/quotes/:id/rooms/:roomId/discount - Set or clear room-level discount
+quoteRoutes.patch("/:id/rooms/:roomId/discount", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const roomId = c.req.param("roomId");
+  const body = await c.req.json();
+  const { discount } = updateRoomDiscountSchema.parse(body);
+
+  const quote = await getService().updateRoomDiscount(user.companyId!, id, roomId, discount, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
@@ -120,7 +317,7 @@ quoteRoutes.delete("/:id/rooms/:roomId", async (c) => {
   const id = c.req.param("id");
   const roomId = c.req.param("roomId");
 
-  const quote = await getService().deleteRoom(user.companyId!, id, roomId);
+  const quote = await getService().deleteRoom(user.companyId!, id, roomId, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
@@ -132,7 +329,19 @@ quoteRoutes.post("/:id/rooms/:roomId/items", async (c) => {
   const body = await c.req.json();
   const { items } = addItemsToRoomSchema.parse(body);
 
-  const quote = await getService().addItemsToRoom(user.companyId!, id, roomId, items);
+  const quote = await getService().addItemsToRoom(user.companyId!, id, roomId, items, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote), 201);
+});
+
+// POST /api/quotes/:id/rooms/:roomId/custom-items - Add service list or free-form items to room
+quoteRoutes.post("/:id/rooms/:roomId/custom-items", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const roomId = c.req.param("roomId");
+  const body = await c.req.json();
+  const { items } = addCustomItemsToRoomSchema.parse(body);
+
+  const quote = await getService().addCustomItemsToRoom(user.companyId!, id, roomId, items, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote), 201);
 });
 
@@ -145,7 +354,7 @@ quoteRoutes.patch("/:id/rooms/:roomId/items/:itemId", async (c) => {
   const body = await c.req.json();
   const updates = updateQuoteItemSchema.parse(body);
 
-  const quote = await getService().updateItem(user.companyId!, id, roomId, itemId, updates);
+  const quote = await getService().updateItem(user.companyId!, id, roomId, itemId, updates, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
@@ -156,7 +365,7 @@ quoteRoutes.delete("/:id/rooms/:roomId/items/:itemId", async (c) => {
   const roomId = c.req.param("roomId");
   const itemId = c.req.param("itemId");
 
-  const quote = await getService().removeItem(user.companyId!, id, roomId, itemId);
+  const quote = await getService().removeItem(user.companyId!, id, roomId, itemId, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
@@ -164,22 +373,226 @@ quoteRoutes.delete("/:id/rooms/:roomId/items/:itemId", async (c) => {
 quoteRoutes.post("/:id/submit", async (c) => {
   const user = c.get("user");
   const id = c.req.param("id");
-  const quote = await getService().submitForApproval(user.companyId!, id);
+  const quote = await getService().submitForApproval(user.companyId!, id, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
-// POST /api/quotes/:id/approve - Approve
+// POST /api/quotes/:id/approve - Approve (admin only)
 quoteRoutes.post("/:id/approve", async (c) => {
   const user = c.get("user");
   const id = c.req.param("id");
-  const quote = await getService().approveQuote(user.companyId!, id);
+  const body = await c.req.json().catch(() => ({}));
+  const input = approveQuoteSchema.parse(body);
+  const quote = await getService().approveQuote(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
 
-// POST /api/quotes/:id/deny - Deny
+// POST /api/quotes/:id/deny - Deny with a required reason (admin only)
 quoteRoutes.post("/:id/deny", async (c) => {
   const user = c.get("user");
   const id = c.req.param("id");
-  const quote = await getService().denyQuote(user.companyId!, id);
+  const body = await c.req.json();
+  const input = denyQuoteSchema.parse(body);
+  const quote = await getService().denyQuote(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// GET /api/quotes/:id/comments - Approval discussion
+quoteRoutes.get("/:id/comments", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const comments = await getService().listComments(user.companyId!, id);
+  return c.json(successResponse(comments));
+});
+
+// POST /api/quotes/:id/comments - Comment while the quote is sent for approval
+quoteRoutes.post("/:id/comments", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = addQuoteCommentSchema.parse(body);
+
+  const quote = await getService().addComment(user.companyId!, id, input, toActor(user));
+  return c.json(successResponse<Quote>(quote), 201);
+});
+
+// POST /api/quotes/:id/extend - Extend validity, or re-issue an expired quote at current prices
+quoteRoutes.post("/:id/extend", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+  const input = extendQuoteSchema.parse(body);
+
+  const quote = await getService().extendQuote(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
   return c.json(successResponse<Quote>(quote));
 });
+
+// GET /api/quotes/:id/margins - Margin per item, room and quote (admin only)
+quoteRoutes.get("/:id/margins", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const report = await getService().getQuoteMargins(user.companyId!, id, toActor(user));
+  return c.json(successResponse(report));
+});
+
+// GET /api/quotes/:id/price-check - Report items whose catalog price has changed since they were quoted
+quoteRoutes.get("/:id/price-check", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const result = await getService().checkCatalogPrices(user.companyId!, id);
+  return c.json(successResponse(result));
+});
+
+// POST /api/quotes/:id/refresh-prices - Update all or selected stale items to current catalog prices (draft only)
+quoteRoutes.post("/:id/refresh-prices", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+  const input = refreshQuotePricesSchema.parse(body);
+
+  const result = await getService().refreshCatalogItemPrices(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse(result));
+});
+
+// POST /api/quotes/:id/convert-to-sale - Create a sale from an approved quote (admin only)
+quoteRoutes.post("/:id/convert-to-sale", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+  const input = convertQuoteToSaleSchema.parse(body);
+
+  const { quote, sale } = await getService().convertToSale(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse({ quote, sale: toResponse(sale) }), 201);
+});
+
+// ========== OPTIONS ==========
+
+// POST /api/quotes/:id/options - Add an alternative option (copy of current rooms by default) and switch to it
+quoteRoutes.post("/:id/options", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = addQuoteOptionSchema.parse(body);
+
+  const quote = await getService().addOption(user.companyId!, id, input, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote), 201);
+});
+
+// PATCH /api/quotes/:id/options/:optionId - Rename option
+quoteRoutes.patch("/:id/options/:optionId", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const optionId = c.req.param("optionId");
+  const body = await c.req.json();
+  const { name } = renameQuoteOptionSchema.parse(body);
+
+  const quote = await getService().renameOption(user.companyId!, id, optionId, name, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// DELETE /api/quotes/:id/options/:optionId - Delete an inactive option
+quoteRoutes.delete("/:id/options/:optionId", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const optionId = c.req.param("optionId");
+
+  const quote = await getService().deleteOption(user.companyId!, id, optionId, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// POST /api/quotes/:id/options/:optionId/activate - Load option into rooms for editing
+quoteRoutes.post("/:id/options/:optionId/activate", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const optionId = c.req.param("optionId");
+
+  const quote = await getService().activateOption(user.companyId!, id, optionId, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// POST /api/quotes/:id/options/:optionId/select - Record the option chosen for approval and conversion
+quoteRoutes.post("/:id/options/:optionId/select", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const optionId = c.req.param("optionId");
+
+  const quote = await getService().selectOption(user.companyId!, id, optionId, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// ========== REVISIONS ==========
+
+// GET /api/quotes/:id/revisions - List revision history (newest first)
+quoteRoutes.get("/:id/revisions", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const revisions = await getService().listRevisions(user.companyId!, id);
+  return c.json(successResponse(revisions));
+});
+
+// GET /api/quotes/:id/revisions/diff?from=1&to=3 - Room/item diff between two revisions
+// NOTE: This route must be declared before /:revision to avoid param capture
+quoteRoutes.get("/:id/revisions/diff", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const { from, to } = quoteRevisionDiffQuerySchema.parse(c.req.query());
+
+  const diff = await getService().diffRevisions(user.companyId!, id, from, to);
+  return c.json(successResponse(diff));
+});
+
+// GET /api/quotes/:id/revisions/:revision - Get a single revision snapshot
+quoteRoutes.get("/:id/revisions/:revision", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const revision = z.coerce.number().int().positive().parse(c.req.param("revision"));
+
+  const snapshot = await getService().getRevision(user.companyId!, id, revision);
+  return c.json(successResponse(snapshot));
+});
+
+// POST /api/quotes/:id/revisions/:revision/restore - Restore an older revision (editable quotes only)
+quoteRoutes.post("/:id/revisions/:revision/restore", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const revision = z.coerce.number().int().positive().parse(c.req.param("revision"));
+
+  const quote = await getService().restoreRevision(user.companyId!, id, revision, toActor(user), getExpectedVersion(c));
+  return c.json(successResponse<Quote>(quote));
+});
+
+// ========== SHARE LINKS ==========
+
+// POST /api/quotes/:id/share-links - Create a time-limited public link for the customer
+quoteRoutes.post("/:id/share-links", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+  const input = createShareLinkSchema.parse(body);
+
+  const link = await getShareService().createShareLink(user.companyId!, id, input, toActor(user));
+  return c.json(successResponse(toResponse(link)), 201);
+});
+
+// GET /api/quotes/:id/share-links - List share links of a quote
+quoteRoutes.get("/:id/share-links", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  const links = await getShareService().listShareLinks(user.companyId!, id);
+  return c.json(successResponse(toResponseArray(links)));
+});
+
+// DELETE /api/quotes/:id/share-links/:linkId - Revoke a share link
+quoteRoutes.delete("/:id/share-links/:linkId", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const linkId = c.req.param("linkId");
+
+  const link = await getShareService().revokeShareLink(user.companyId!, id, linkId, toActor(user));
+  return c.json(successResponse(toResponse(link)));
+});
@@ -0,0 +1,56 @@
+import { Hono } from "hono";
+import type { Env } from "@/types/hono";
+import { SaleService } from "@/services/sale.service";
+import { successResponse } from "@/utils/response";
+import { authMiddleware } from "@/middleware/auth";
+import { toResponseArray } from "@/utils/response-transformer";
+
+export const receivableRoutes = new Hono<Env>();
+
+let service: SaleService | null = null;
+
+function getService(): SaleService {
+  if (!service) {
+    service = new SaleService();
+  }
+  return service;
+}
+
+// Apply auth middleware
+receivableRoutes.use("*", authMiddleware);
+
+// GET /api/receivables/overdue-installments - Overdue installments across all customers
+receivableRoutes.get("/overdue-installments", async (c) => {
+  const user = c.get("user");
+
+  const installments = await getService().listOverdueInstallments(user.companyId!);
+
+  return c.json(successResponse(toResponseArray(installments)));
+});
+
+// GET /api/receivables/aging - Outstanding balances by customer in aging buckets (admin only)
+receivableRoutes.get("/aging", async (c) => {
+  const user = c.get("user");
+
+  const report = await getService().getReceivablesAging(user.companyId!, user.role);
+
+  return c.json(successResponse(report));
+});
+
+// GET /api/receivables/aging/xlsx - Download aging report as an Excel workbook (admin only)
+receivableRoutes.get("/aging/xlsx", async (c) => {
+  const user = c.get("user");
+
+  const { buffer, filename } = await getService().exportReceivablesAgingXlsx(user.companyId!, user.role);
+
+  return new Response(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Length": buffer.length.toString(),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+});
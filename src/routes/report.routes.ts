@@ -0,0 +1,30 @@
+import { Hono } from "hono";
+import type { Env } from "@/types/hono";
+import { SaleService } from "@/services/sale.service";
+import { successResponse } from "@/utils/response";
+import { authMiddleware } from "@/middleware/auth";
+import { salesReportQuerySchema } from "@/types/customer/sale/sales_report";
+
+export const reportRoutes = new Hono<Env>();
+
+let service: SaleService | null = null;
+
+function getService(): SaleService {
+  if (!service) {
+    service = new SaleService();
+  }
+  return service;
+}
+
+// Apply auth middleware
+reportRoutes.use("*", authMiddleware);
+
+// GET /api/reports/sales - Revenue and collections by period, user, payment type and currency (admin only)
+reportRoutes.get("/sales", async (c) => {
+  const user = c.get("user");
+  const query = salesReportQuerySchema.parse(c.req.query());
+
+  const report = await getService().getSalesReport(user.companyId!, user.role, query);
+
+  return c.json(successResponse(report));
+});
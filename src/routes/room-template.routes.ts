@@ -0,0 +1,62 @@
+import { Hono } from "hono";
+import type { Env } from "@/types/hono";
+import { RoomTemplateService } from "@/services/room-template.service";
+import { successResponse } from "@/utils/response";
+import { authMiddleware } from "@/middleware/auth";
+import { createRoomTemplateSchema, updateRoomTemplateSchema } from "@/types/quotes/room_template";
+
+export const roomTemplateRoutes = new Hono<Env>();
+
+let service: RoomTemplateService | null = null;
+
+function getService(): RoomTemplateService {
+  if (!service) {
+    service = new RoomTemplateService();
+  }
+  return service;
+}
+
+// Apply auth middleware
+roomTemplateRoutes.use("*", authMiddleware);
+
+// GET /api/room-templates - List company room templates
+roomTemplateRoutes.get("/", async (c) => {
+  const user = c.get("user");
+  const templates = await getService().listTemplates(user.companyId!);
+  return c.json(successResponse(templates));
+});
+
+// GET /api/room-templates/:id - Get single room template
+roomTemplateRoutes.get("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const template = await getService().getTemplate(user.companyId!, id);
+  return c.json(successResponse(template));
+});
+
+// POST /api/room-templates - Create room template (admin only)
+roomTemplateRoutes.post("/", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json();
+  const input = createRoomTemplateSchema.parse(body);
+  const template = await getService().createTemplate(user.companyId!, user._id!, user.role, input);
+  return c.json(successResponse(template), 201);
+});
+
+// PATCH /api/room-templates/:id - Update room template (admin only)
+roomTemplateRoutes.patch("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = updateRoomTemplateSchema.parse(body);
+  const template = await getService().updateTemplate(user.companyId!, user.role, id, input);
+  return c.json(successResponse(template));
+});
+
+// DELETE /api/room-templates/:id - Delete room template (admin only)
+roomTemplateRoutes.delete("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  await getService().deleteTemplate(user.companyId!, user.role, id);
+  return c.json(successResponse({ message: "Room template deleted successfully" }));
+});
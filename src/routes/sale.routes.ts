@@ -8,6 +8,8 @@ import { toResponse, toResponseArray } from "@/utils/response-transformer";
 import { currencySchema } from "@/types/currency";
 import { paymentTypeSchema } from "@/types/customer/sale/payment_log";
 import { timestampSchema } from "@/types/timestamp";
+import { setInstallmentsSchema } from "@/types/customer/sale/sale";
+import { statementQuerySchema } from "@/types/customer/sale/statement";
 
 export const saleRoutes = new Hono<Env>();
 
@@ -41,6 +43,7 @@ const updateSaleSchema = z.object({
 const addPaymentLogSchema = z.object({
   amount: z.number().positive(),
   currency: currencySchema,
+  exchangeRate: z.number().positive().optional(), // To the sale currency; defaults to the company rate on the payment date
   paymentType: paymentTypeSchema,
   description: z.string().optional(),
   createdAt: timestampSchema.optional(),
@@ -49,6 +52,7 @@ const addPaymentLogSchema = z.object({
 const updatePaymentLogSchema = z.object({
   amount: z.number().positive().optional(),
   currency: currencySchema.optional(),
+  exchangeRate: z.number().positive().optional(),
   paymentType: paymentTypeSchema.optional(),
   description: z.string().optional(),
   createdAt: timestampSchema.optional(),
@@ -128,6 +132,84 @@ saleRoutes.delete("/:customerId/sales/:saleId", async (c) => {
   return c.json(successResponse({ message: "Sale deleted successfully" }));
 });
 
+// ========== ACCOUNT STATEMENT ==========
+
+// GET /api/customers/:customerId/statement - Ledger of sales and payments with running balances (?from=&to=)
+saleRoutes.get("/:customerId/statement", async (c) => {
+  const user = c.get("user");
+  const customerId = c.req.param("customerId");
+  const query = statementQuerySchema.parse(c.req.query());
+
+  const statement = await getService().getCustomerStatement(user.companyId!, customerId, query);
+
+  return c.json(successResponse(toResponse(statement)));
+});
+
+// GET /api/customers/:customerId/statement/pdf - Download statement as PDF
+saleRoutes.get("/:customerId/statement/pdf", async (c) => {
+  const user = c.get("user");
+  const customerId = c.req.param("customerId");
+  const query = statementQuerySchema.parse(c.req.query());
+
+  const { buffer, filename } = await getService().exportCustomerStatementPdf(user.companyId!, customerId, query);
+
+  return new Response(buffer, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Length": buffer.length.toString(),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+});
+
+// GET /api/customers/:customerId/statement/xlsx - Download statement as an Excel workbook
+saleRoutes.get("/:customerId/statement/xlsx", async (c) => {
+  const user = c.get("user");
+  const customerId = c.req.param("customerId");
+  const query = statementQuerySchema.parse(c.req.query());
+
+  const { buffer, filename } = await getService().exportCustomerStatementXlsx(user.companyId!, customerId, query);
+
+  return new Response(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Length": buffer.length.toString(),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+});
+
+// ========== INSTALLMENT PLAN ==========
+
+// GET /api/customers/:customerId/sales/:saleId/installments - Installment plan with payment status
+saleRoutes.get("/:customerId/sales/:saleId/installments", async (c) => {
+  const user = c.get("user");
+  const saleId = c.req.param("saleId");
+
+  const schedule = await getService().getInstallmentSchedule(user.companyId!, saleId);
+
+  return c.json(successResponse(toResponseArray(schedule)));
+});
+
+// PUT /api/customers/:customerId/sales/:saleId/installments - Replace installment plan (admin only)
+saleRoutes.put("/:customerId/sales/:saleId/installments", async (c) => {
+  const user = c.get("user");
+  const saleId = c.req.param("saleId");
+  const body = await c.req.json();
+
+  const input = setInstallmentsSchema.parse(body);
+
+  const schedule = await getService().setInstallments(user.companyId!, saleId, user.role, input);
+
+  return c.json(successResponse(toResponseArray(schedule)));
+});
+
 // ========== PAYMENT LOG CRUD ==========
 
 // POST /api/customers/:customerId/sales/:saleId/payments - Add payment log (admin only)
@@ -185,3 +267,14 @@ saleRoutes.delete("/:customerId/sales/:saleId/payments/:logId", async (c) => {
 
   return c.json(successResponse(toResponse(sale)));
 });
+
+// ========== MAINTENANCE ==========
+
+// POST /api/customers/sales/recompute-payments - Recompute converted payments and sale totals (admin only)
+saleRoutes.post("/sales/recompute-payments", async (c) => {
+  const user = c.get("user");
+
+  const result = await getService().recomputePayments(user.companyId!, user.role);
+
+  return c.json(successResponse(result));
+});
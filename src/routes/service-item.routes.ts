@@ -0,0 +1,63 @@
+import { Hono } from "hono";
+import type { Env } from "@/types/hono";
+import { ServiceItemService } from "@/services/service-item.service";
+import { successResponse } from "@/utils/response";
+import { authMiddleware } from "@/middleware/auth";
+import { createServiceItemSchema, updateServiceItemSchema } from "@/types/quotes/service_item";
+
+export const serviceItemRoutes = new Hono<Env>();
+
+let service: ServiceItemService | null = null;
+
+function getService(): ServiceItemService {
+  if (!service) {
+    service = new ServiceItemService();
+  }
+  return service;
+}
+
+// Apply auth middleware
+serviceItemRoutes.use("*", authMiddleware);
+
+// GET /api/service-items - List company service items (?active=true for quotable items only)
+serviceItemRoutes.get("/", async (c) => {
+  const user = c.get("user");
+  const activeOnly = c.req.query("active") === "true";
+  const items = await getService().listServiceItems(user.companyId!, activeOnly);
+  return c.json(successResponse(items));
+});
+
+// GET /api/service-items/:id - Get single service item
+serviceItemRoutes.get("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const item = await getService().getServiceItem(user.companyId!, id);
+  return c.json(successResponse(item));
+});
+
+// POST /api/service-items - Create service item (admin only)
+serviceItemRoutes.post("/", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json();
+  const input = createServiceItemSchema.parse(body);
+  const item = await getService().createServiceItem(user.companyId!, user.role, input);
+  return c.json(successResponse(item), 201);
+});
+
+// PATCH /api/service-items/:id - Update service item (admin only)
+serviceItemRoutes.patch("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  const body = await c.req.json();
+  const input = updateServiceItemSchema.parse(body);
+  const item = await getService().updateServiceItem(user.companyId!, user.role, id, input);
+  return c.json(successResponse(item));
+});
+
+// DELETE /api/service-items/:id - Delete service item (admin only)
+serviceItemRoutes.delete("/:id", async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+  await getService().deleteServiceItem(user.companyId!, user.role, id);
+  return c.json(successResponse({ message: "Service item deleted successfully" }));
+});
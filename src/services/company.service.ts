@@ -4,7 +4,12 @@ import { UserRepository } from "@/repositories/user.repository";
 import { AppError } from "@/middleware/error-handler";
 import { ObjectId } from "mongodb";
 import { Timestamp } from "firebase-admin/firestore";
-import type { Company } from "@/types/company/company";
+import {
+  type Company,
+  type CompanyQuoteSettings,
+  type UpdateCompanyQuoteSettingsInput,
+  companyQuoteSettingsSchema,
+} from "@/types/company/company";
 import type { CompanyInvite } from "@/types/company/company_invite";
 import type { FIUser } from "@/types/user/fi_user";
 import { logger } from "@/utils/logger";
@@ -280,6 +285,32 @@ export class CompanyService {
     return updated;
   }
 
+  async updateQuoteSettings(userId: string, input: UpdateCompanyQuoteSettingsInput): Promise<CompanyQuoteSettings> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) throw new AppError(404, "User not found");
+    if (!user.companyId) throw new AppError(400, "User is not in a company");
+    if (!isAdmin(user.role)) throw new AppError(403, "Only admins can update quote settings");
+
+    const company = await this.companyRepo.findById(user.companyId);
+    if (!company) throw new AppError(404, "Company not found");
+
+    const quoteSettings = companyQuoteSettingsSchema.parse({
+      ...company.quoteSettings,
+      ...input,
+      numbering: { ...company.quoteSettings?.numbering, ...input.numbering },
+    });
+
+    if (quoteSettings.numbering.resetYearly && !quoteSettings.numbering.includeYear) {
+      throw new AppError(400, "Yearly counter resets require the year in the quote number");
+    }
+
+    const updated = await this.companyRepo.update(user.companyId, { quoteSettings });
+    if (!updated) throw new AppError(500, "Failed to update company");
+
+    logger.info("Company quote settings updated", { companyId: user.companyId, userId });
+    return quoteSettings;
+  }
+
   async deleteCompany(userId: string): Promise<void> {
     const user = await this.userRepo.findById(userId);
     if (!user) throw new AppError(404, "User not found");
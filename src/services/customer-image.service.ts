@@ -74,6 +74,11 @@ export class CustomerImageService {
     return image;
   }
 
+  async getImagesMetadata(companyId: string, imageIds: string[]): Promise<CustomerImageMetadata[]> {
+    if (imageIds.length === 0) return [];
+    return await this.repository.findMetadataByIds(companyId, imageIds);
+  }
+
   /**
    * Get image data as buffer (downloads from GridFS)
    */
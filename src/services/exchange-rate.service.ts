@@ -0,0 +1,152 @@
+import { ExchangeRateRepository } from "@/repositories/exchange-rate.repository";
+import {
+  exchangeRateSchema,
+  EXCHANGE_RATE_BASE_CURRENCY,
+  type ExchangeRate,
+  type ExchangeRateProvider,
+  type CreateExchangeRateInput,
+  type ListExchangeRatesQuery,
+} from "@/types/company/exchange_rate";
+import { currencySchema, type Currency } from "@/types/currency";
+import { isAdmin, type UserRole } from "@/types/user/fi_user";
+import { AppError } from "@/middleware/error-handler";
+import { logger } from "@/utils/logger";
+import { Timestamp } from "firebase-admin/firestore";
+
+// External rate feeds available for import, looked up by name
+export const EXCHANGE_RATE_PROVIDERS: ExchangeRateProvider[] = [];
+
+export class ExchangeRateService {
+  private repository: ExchangeRateRepository;
+  private providers: Map<string, ExchangeRateProvider>;
+
+  constructor(providers: ExchangeRateProvider[] = EXCHANGE_RATE_PROVIDERS) {
+    this.repository = new ExchangeRateRepository();
+    this.providers = new Map(providers.map(provider => [provider.name, provider]));
+  }
+
+  private assertAdmin(role: UserRole): void {
+    if (!isAdmin(role)) {
+      throw new AppError(403, "Only admin users can manage exchange rates", "FORBIDDEN");
+    }
+  }
+
+  async listRates(companyId: string, query: ListExchangeRatesQuery): Promise<{ entries: ExchangeRate[]; total: number }> {
+    return await this.repository.findAll(companyId, query);
+  }
+
+  async getLatestRates(companyId: string): Promise<ExchangeRate | null> {
+    return await this.repository.findLatest(companyId);
+  }
+
+  async getRates(companyId: string, id: string): Promise<ExchangeRate> {
+    const entry = await this.repository.findById(companyId, id);
+
+    if (!entry) {
+      throw new AppError(404, "Exchange rate entry not found", "EXCHANGE_RATE_NOT_FOUND");
+    }
+
+    return entry;
+  }
+
+  async createRates(
+    companyId: string,
+    userId: string,
+    role: UserRole,
+    input: CreateExchangeRateInput
+  ): Promise<ExchangeRate> {
+    this.assertAdmin(role);
+
+    const entry = exchangeRateSchema.parse({
+      effectiveAt: Timestamp.fromDate(input.effectiveAt ?? new Date()),
+      rates: { ...input.rates, [EXCHANGE_RATE_BASE_CURRENCY]: 1 },
+      source: "manual",
+      note: input.note,
+      createdByUserId: userId,
+    });
+
+    return await this.repository.create(companyId, entry);
+  }
+
+  listProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Fetch current rates from a registered provider and store them as a new entry.
+   */
+  async importRates(companyId: string, userId: string, role: UserRole, providerName: string): Promise<ExchangeRate> {
+    this.assertAdmin(role);
+
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new AppError(404, `Unknown exchange rate provider "${providerName}"`, "PROVIDER_NOT_FOUND");
+    }
+
+    let provided;
+    try {
+      provided = await provider.fetchRates();
+    } catch (error) {
+      logger.error("Failed to fetch exchange rates from provider", { provider: providerName, error });
+      throw new AppError(502, "Exchange rate provider is unavailable", "PROVIDER_UNAVAILABLE");
+    }
+
+    const entry = exchangeRateSchema.parse({
+      effectiveAt: Timestamp.fromDate(provided.effectiveAt),
+      rates: { ...provided.rates, [EXCHANGE_RATE_BASE_CURRENCY]: 1 },
+      source: provider.name,
+      createdByUserId: userId,
+    });
+
+    return await this.repository.create(companyId, entry);
+  }
+
+  /**
+   * Value of one unit of `from` in `to`, using the rates in effect at `at`.
+   * Null when either currency has no recorded rate.
+   */
+  async getConversionRate(
+    companyId: string,
+    from: Currency,
+    to: Currency,
+    at: Timestamp = Timestamp.now()
+  ): Promise<number | null> {
+    if (from === to) return 1;
+
+    const entry = await this.repository.findLatest(companyId, at);
+    const fromRate = entry?.rates[from];
+    const toRate = entry?.rates[to];
+    if (!fromRate || !toRate) {
+      return null;
+    }
+
+    return Math.round((fromRate / toRate) * 1e6) / 1e6;
+  }
+
+  /**
+   * Quote conversions derived from the latest rates: for each currency, the amount of
+   * `currency` one unit of it is worth. Null when the company has not recorded any rates
+   * or the latest entry has no rate for `currency`.
+   */
+  async getQuoteConversions(
+    companyId: string,
+    currency: Currency
+  ): Promise<{ conversions: Partial<Record<Currency, number>>; exchangeRateId: string } | null> {
+    const entry = await this.repository.findLatest(companyId);
+    const baseRate = entry?.rates[currency];
+    if (!entry || !baseRate) {
+      return null;
+    }
+
+    const conversions: Partial<Record<Currency, number>> = {};
+    for (const other of currencySchema.options) {
+      const rate = entry.rates[other];
+      if (rate) {
+        conversions[other] = Math.round((rate / baseRate) * 1e6) / 1e6;
+      }
+    }
+    conversions[currency] = 1;
+
+    return { conversions, exchangeRateId: entry._id!.toString() };
+  }
+}
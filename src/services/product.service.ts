@@ -134,6 +134,21 @@ export class ProductService {
     return product;
   }
 
+  /**
+   * Fetch products by ID with priceWithRate applied, e.g. for pricing quote items.
+   * Missing IDs are simply absent from the result.
+   */
+  async getPricedProducts(ids: string[]): Promise<Product[]> {
+    const products = await this.repository.findByIds(ids);
+    if (products.length === 0) {
+      return [];
+    }
+
+    const vendorIds = [...new Set(products.map((p) => p.vendorId.toString()))];
+    const rateMap = await this.buildRateMap(vendorIds);
+    return this.applyRates(products, rateMap);
+  }
+
   async listAllProducts(): Promise<Product[]> {
     return await this.repository.findAll();
   }
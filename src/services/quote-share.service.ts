@@ -0,0 +1,250 @@
+import { QuoteShareLinkRepository } from "@/repositories/quote-share-link.repository";
+import { QuoteRepository } from "@/repositories/quote.repository";
+import { CompanyRepository } from "@/repositories/company.repository";
+import { QuoteService } from "@/services/quote.service";
+import type { Quote, QuoteActor, QuoteRoom } from "@/types/quotes/quote";
+import type {
+  CreateShareLinkInput,
+  QuoteShareLink,
+  RespondToQuoteInput,
+} from "@/types/quotes/quote_share_link";
+import { timestampSchema } from "@/types/timestamp";
+import { AppError } from "@/middleware/error-handler";
+import { logger } from "@/utils/logger";
+import { Timestamp } from "firebase-admin/firestore";
+import { randomBytes } from "node:crypto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Customers may only answer quotes that are still open
+const RESPONDABLE_STATUSES: Quote["status"][] = ["sent_for_approval", "approved"];
+
+interface PublicRoom {
+  name: string;
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+  items: {
+    name: string;
+    unit?: string;
+    quantity: number;
+    convertedUnitPrice: number;
+    totalPrice: number;
+    discountAmount: number;
+    width?: number;
+    height?: number;
+    pricingUnit?: string;
+  }[];
+}
+
+/**
+ * Read-only view of a quote shown to customers. Only whitelisted fields are exposed,
+ * so internal data (creator, costs, audit info) never leaves the company.
+ */
+export interface PublicQuote {
+  companyName: string;
+  quoteNumber: string;
+  customerName?: string;
+  currency: Quote["currency"];
+  status: Quote["status"];
+  rooms: PublicRoom[];
+  // Alternatives the customer can choose between; empty for quotes without options
+  options: {
+    id: string;
+    name: string;
+    rooms: PublicRoom[];
+    subtotal: number;
+    discountTotal: number;
+    taxTotal: number;
+    total: number;
+  }[];
+  selectedOptionId?: string;
+  subtotal: number;
+  discountTotal: number;
+  vatRate: number;
+  taxTotal: number;
+  total: number;
+  validUntil?: Quote["validUntil"];
+  customerResponse?: Quote["customerResponse"];
+}
+
+function toPublicRooms(rooms: QuoteRoom[]): PublicRoom[] {
+  return rooms.map((room) => ({
+    name: room.name,
+    subtotal: room.subtotal ?? room.total,
+    discountAmount: room.discountAmount ?? 0,
+    total: room.total,
+    items: room.items.map((item) => ({
+      name: item.name,
+      unit: item.unit,
+      quantity: item.quantity,
+      convertedUnitPrice: item.convertedUnitPrice,
+      totalPrice: item.totalPrice,
+      discountAmount: item.discountAmount ?? 0,
+      width: item.width,
+      height: item.height,
+      pricingUnit: item.pricingUnit,
+    })),
+  }));
+}
+
+export class QuoteShareService {
+  private repository: QuoteShareLinkRepository;
+  private quoteRepository: QuoteRepository;
+  private companyRepository: CompanyRepository;
+  private quoteService: QuoteService;
+
+  constructor() {
+    this.repository = new QuoteShareLinkRepository();
+    this.quoteRepository = new QuoteRepository();
+    this.companyRepository = new CompanyRepository();
+    this.quoteService = new QuoteService();
+  }
+
+  async createShareLink(
+    companyId: string,
+    quoteId: string,
+    input: CreateShareLinkInput,
+    actor: QuoteActor
+  ): Promise<QuoteShareLink> {
+    await this.quoteService.getQuote(companyId, quoteId);
+
+    const now = Timestamp.now();
+    return await this.repository.create({
+      token: randomBytes(24).toString("base64url"),
+      companyId,
+      quoteId,
+      createdByUserId: actor.id,
+      createdByUserName: actor.name,
+      createdAt: now,
+      expiresAt: Timestamp.fromMillis(now.toMillis() + input.expiresInDays * DAY_MS),
+    });
+  }
+
+  async listShareLinks(companyId: string, quoteId: string): Promise<QuoteShareLink[]> {
+    await this.quoteService.getQuote(companyId, quoteId);
+    return await this.repository.findByQuoteId(companyId, quoteId);
+  }
+
+  async revokeShareLink(companyId: string, quoteId: string, linkId: string, actor: QuoteActor): Promise<QuoteShareLink> {
+    const revoked = await this.repository.revoke(companyId, quoteId, linkId, actor.id);
+    if (!revoked) {
+      throw new AppError(404, "Share link not found", "SHARE_LINK_NOT_FOUND");
+    }
+
+    logger.info("Quote share link revoked", { linkId, quoteId, companyId });
+    return revoked;
+  }
+
+  // Public (token based) operations
+
+  async getPublicQuote(token: string): Promise<PublicQuote> {
+    const link = await this.resolveLink(token);
+    const quote = await this.quoteService.getQuote(link.companyId, link.quoteId);
+    return await this.toPublicQuote(link.companyId, quote);
+  }
+
+  async getPublicQuotePdf(token: string): Promise<{ buffer: Uint8Array; filename: string }> {
+    const link = await this.resolveLink(token);
+    return await this.quoteService.exportQuotePdf(link.companyId, link.quoteId);
+  }
+
+  async respondToQuote(token: string, input: RespondToQuoteInput): Promise<PublicQuote> {
+    const link = await this.resolveLink(token);
+    const quote = await this.quoteService.getQuote(link.companyId, link.quoteId);
+
+    if (quote.customerResponse) {
+      throw new AppError(409, "This quote has already been answered.", "ALREADY_RESPONDED");
+    }
+
+    if (!RESPONDABLE_STATUSES.includes(quote.status)) {
+      throw new AppError(400, "This quote can no longer be answered.", "INVALID_STATUS");
+    }
+
+    const options = quote.options ?? [];
+    if (input.optionId && !options.some((o) => o.id === input.optionId)) {
+      throw new AppError(400, "Option not found", "OPTION_NOT_FOUND");
+    }
+
+    const updates: Partial<Quote> = {};
+    let optionId = input.optionId;
+
+    if (input.decision === "accepted" && options.length > 1) {
+      optionId ??= quote.selectedOptionId;
+      if (!optionId) {
+        throw new AppError(400, "Choose which option to accept.", "VALIDATION_ERROR");
+      }
+
+      // Approved quotes are locked to the approved option
+      if (quote.status === "approved" && optionId !== quote.selectedOptionId) {
+        throw new AppError(400, "Only the approved option can be accepted.", "VALIDATION_ERROR");
+      }
+      updates.selectedOptionId = optionId;
+    }
+
+    // Conditional write: of two simultaneous answers only the first is stored
+    const updated = await this.quoteRepository.setCustomerResponse(link.companyId, link.quoteId, quote.status, {
+      ...updates,
+      customerResponse: {
+        decision: input.decision,
+        note: input.note,
+        optionId,
+        shareLinkId: link._id!.toString(),
+        respondedAt: Timestamp.now(),
+      },
+    });
+    if (!updated) {
+      throw new AppError(409, "This quote has already been answered or has changed.", "ALREADY_RESPONDED");
+    }
+
+    logger.info("Customer responded to quote", {
+      quoteId: link.quoteId,
+      companyId: link.companyId,
+      decision: input.decision,
+    });
+    return await this.toPublicQuote(link.companyId, updated);
+  }
+
+  private async resolveLink(token: string): Promise<QuoteShareLink> {
+    const link = await this.repository.findByToken(token);
+    if (!link || link.revokedAt) {
+      throw new AppError(404, "Share link not found", "SHARE_LINK_NOT_FOUND");
+    }
+
+    if (timestampSchema.parse(link.expiresAt).toMillis() < Date.now()) {
+      throw new AppError(410, "Share link has expired", "SHARE_LINK_EXPIRED");
+    }
+
+    return link;
+  }
+
+  private async toPublicQuote(companyId: string, quote: Quote): Promise<PublicQuote> {
+    const company = await this.companyRepository.findById(companyId);
+
+    return {
+      companyName: company?.name ?? "",
+      quoteNumber: quote.quoteNumber,
+      customerName: quote.customerName,
+      currency: quote.currency,
+      status: quote.status,
+      rooms: toPublicRooms(quote.rooms),
+      options: (quote.options ?? []).map((option) => ({
+        id: option.id,
+        name: option.name,
+        rooms: toPublicRooms(option.rooms),
+        subtotal: option.subtotal,
+        discountTotal: option.discountTotal,
+        taxTotal: option.taxTotal,
+        total: option.total,
+      })),
+      selectedOptionId: quote.selectedOptionId,
+      subtotal: quote.subtotal ?? quote.total,
+      discountTotal: quote.discountTotal ?? 0,
+      vatRate: quote.vatRate ?? 0,
+      taxTotal: quote.taxTotal ?? 0,
+      total: quote.total,
+      validUntil: quote.validUntil,
+      customerResponse: quote.customerResponse,
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { ObjectId } from "mongodb";
+import type { Quote, QuoteActor } from "@/types/quotes/quote";
+
+process.env.MONGODB_URI ??= "mongodb://localhost:27017";
+process.env.FIREBASE_SERVICE_ACCOUNT_PATH ??= "firebase-service-account.json";
+
+const { QuoteService } = await import("@/services/quote.service");
+const { quoteSchema } = await import("@/types/quotes/quote");
+
+const companyId = "company-1";
+const actor: QuoteActor = { id: "user-1", name: "Test User", role: "admin" };
+
+/**
+ * QuoteService with its repositories and services replaced by in-memory fakes.
+ */
+function createService(quotes: Map<string, Quote>) {
+  const service = new QuoteService();
+  let sequence = 0;
+
+  Object.assign(service, {
+    repository: {
+      findById: async (_companyId: string, id: string) => (quotes.has(id) ? { ...quotes.get(id)! } : null),
+      create: async (_companyId: string, quote: Quote) => {
+        quote._id = new ObjectId();
+        quotes.set(quote._id.toString(), { ...quote });
+        return quote;
+      },
+      update: async (_companyId: string, id: string, updates: Partial<Quote>) => {
+        const updated = { ...quotes.get(id)!, ...updates, version: (quotes.get(id)!.version ?? 0) + 1 };
+        quotes.set(id, updated);
+        return { ...updated };
+      },
+      findHighestNumberSequence: async () => 0,
+    },
+    revisionRepository: { createNext: async () => ({}) },
+    companyRepository: { findById: async () => null },
+    counterRepository: { next: async () => ++sequence },
+    exchangeRateService: { getQuoteConversions: async () => null },
+  });
+
+  return service;
+}
+
+describe("QuoteService.duplicateQuote", () => {
+  let quotes: Map<string, Quote>;
+  let service: InstanceType<typeof QuoteService>;
+  let sourceId: string;
+
+  beforeEach(() => {
+    quotes = new Map();
+    service = createService(quotes);
+
+    const source = quoteSchema.parse({
+      companyId,
+      quoteNumber: "TKL-0001",
+      creatorId: actor.id,
+      currency: "TRY",
+      status: "draft",
+    });
+    source._id = new ObjectId();
+    sourceId = source._id.toString();
+    quotes.set(sourceId, source);
+  });
+
+  it("copies a quote whose currency was changed without company rates", async () => {
+    const changed = await service.updateQuoteCurrency(companyId, sourceId, "EUR", actor);
+    expect(changed.conversions).toEqual({ EUR: 1 });
+
+    const copy = await service.duplicateQuote(companyId, sourceId, {}, actor);
+
+    expect(copy._id?.toString()).not.toBe(sourceId);
+    expect(copy.currency).toBe("EUR");
+    expect(copy.conversions).toEqual({ EUR: 1 });
+    expect(copy.status).toBe("draft");
+    expect(copy.duplicatedFromQuoteId).toBe(sourceId);
+  });
+
+  it("sets the base currency rate on copies of quotes that lack it", async () => {
+    quotes.get(sourceId)!.conversions = { USD: 35 };
+
+    const copy = await service.duplicateQuote(companyId, sourceId, {}, actor);
+
+    expect(copy.conversions).toEqual({ USD: 35, TRY: 1 });
+  });
+});
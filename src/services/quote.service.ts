@@ -1,38 +1,184 @@
 import { QuoteRepository } from "@/repositories/quote.repository";
-import { ProductRepository } from "@/repositories/product.repository";
+import { QuoteRevisionRepository } from "@/repositories/quote-revision.repository";
+import { QuoteShareLinkRepository } from "@/repositories/quote-share-link.repository";
+import { CompanyRepository } from "@/repositories/company.repository";
+import { ServiceItemRepository } from "@/repositories/service-item.repository";
+import { CounterRepository } from "@/repositories/counter.repository";
+import { RoomTemplateRepository } from "@/repositories/room-template.repository";
 import { CustomerService } from "@/services/customer.service";
-import { type Quote, type QuoteStatus, type QuoteItem, type QuoteRoom, quoteSchema } from "@/types/quotes/quote";
+import { ProductService } from "@/services/product.service";
+import { SaleService } from "@/services/sale.service";
+import { ExchangeRateService } from "@/services/exchange-rate.service";
+import { CustomerImageService } from "@/services/customer-image.service";
+import {
+  type Quote,
+  type QuoteActor,
+  type QuoteStatus,
+  type QuoteItem,
+  type QuoteRoom,
+  type QuoteRoomImage,
+  type SetRoomImagesInput,
+  type AddItemsToRoomInput,
+  type AddCustomItemsToRoomInput,
+  type UpdateQuoteItemInput,
+  type UpdateQuotePricingInput,
+  type UpdateQuoteConversionsInput,
+  type Discount,
+  type ExtendQuoteInput,
+  type ListQuotesQuery,
+  type QuotePriceChange,
+  type QuotePriceCheck,
+  type QuoteMarginReport,
+  type RefreshQuotePricesInput,
+  type ApprovalEvent,
+  type ApproveQuoteInput,
+  type AddQuoteOptionInput,
+  type DuplicateQuoteInput,
+  type CloseQuoteInput,
+  type QuoteClosure,
+  type QuoteOption,
+  type DenyQuoteInput,
+  type AddQuoteCommentInput,
+  type QuoteComment,
+  quoteSchema,
+  EXPIRABLE_QUOTE_STATUSES,
+  CANCELLABLE_QUOTE_STATUSES,
+} from "@/types/quotes/quote";
+import {
+  companyQuoteSettingsSchema,
+  type CompanyQuoteSettings,
+  type QuoteNumbering,
+} from "@/types/company/company";
+import { timestampSchema } from "@/types/timestamp";
 import { AppError } from "@/middleware/error-handler";
 import { logger } from "@/utils/logger";
 import { ObjectId } from "mongodb";
 import { Timestamp } from "firebase-admin/firestore";
 import type { Currency } from "@/types/currency";
+import type { Sale } from "@/types/customer/sale/sale";
+import type { QuoteRevision, QuoteRevisionDiff, QuoteRevisionSummary } from "@/types/quotes/quote_revision";
+import type { AddRoomFromTemplateInput } from "@/types/quotes/room_template";
+import { isAdmin } from "@/types/user/fi_user";
+import { renderQuotePdf } from "@/utils/quote-pdf";
+import { renderQuoteXlsx } from "@/utils/quote-xlsx";
+import { applyQuoteTotals, calculateItemQuantity, calculateQuoteMargins } from "@/utils/quote-pricing";
+import { diffQuoteRevisions } from "@/utils/quote-diff";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PDF_IMAGE_TYPES = ["image/jpeg", "image/png"];
+const READ_ONLY_STATUSES: QuoteStatus[] = ["approved", "denied", "converted", "expired", "cancelled", "archived"];
 
 export class QuoteService {
   private repository: QuoteRepository;
-  private productRepository: ProductRepository;
+  private revisionRepository: QuoteRevisionRepository;
+  private shareLinkRepository: QuoteShareLinkRepository;
+  private productService: ProductService;
+  private companyRepository: CompanyRepository;
+  private serviceItemRepository: ServiceItemRepository;
+  private counterRepository: CounterRepository;
+  private roomTemplateRepository: RoomTemplateRepository;
   private customerService: CustomerService;
+  private saleService: SaleService;
+  private exchangeRateService: ExchangeRateService;
+  private customerImageService: CustomerImageService;
 
   constructor() {
     this.repository = new QuoteRepository();
-    this.productRepository = new ProductRepository();
+    this.revisionRepository = new QuoteRevisionRepository();
+    this.shareLinkRepository = new QuoteShareLinkRepository();
+    this.productService = new ProductService();
+    this.companyRepository = new CompanyRepository();
+    this.serviceItemRepository = new ServiceItemRepository();
+    this.counterRepository = new CounterRepository();
+    this.roomTemplateRepository = new RoomTemplateRepository();
     this.customerService = new CustomerService();
+    this.saleService = new SaleService();
+    this.exchangeRateService = new ExchangeRateService();
+    this.customerImageService = new CustomerImageService();
   }
 
-  async createQuote(companyId: string, creatorId: string, creatorName: string, currency: Currency): Promise<Quote> {
-    const quoteNumber = await this.repository.getNextQuoteNumber(companyId);
+  async createQuote(companyId: string, actor: QuoteActor, currency: Currency): Promise<Quote> {
+    const settings = await this.getQuoteSettings(companyId);
+    const quoteNumber = await this.generateQuoteNumber(companyId, settings.numbering);
+    const validityDays = settings.validityDays;
+    const latestRates = await this.exchangeRateService.getQuoteConversions(companyId, currency);
 
     const quote: Quote = quoteSchema.parse({
       companyId,
       quoteNumber,
-      creatorId,
-      creatorName,
+      creatorId: actor.id,
+      creatorName: actor.name,
       currency,
+      conversions: latestRates?.conversions,
+      exchangeRateId: latestRates?.exchangeRateId,
       rooms: [],
       status: "draft",
+      validUntil: Timestamp.fromMillis(Date.now() + validityDays * DAY_MS),
     });
 
-    return await this.repository.create(companyId, quote);
+    const created = await this.repository.create(companyId, quote);
+    return await this.recordRevision(companyId, created, actor, "create");
+  }
+
+  /**
+   * Create a new draft with the same rooms, items and options as any existing quote.
+   * Prices are copied as quoted; use the price check to bring them up to date.
+   */
+  async duplicateQuote(companyId: string, id: string, input: DuplicateQuoteInput, actor: QuoteActor): Promise<Quote> {
+    const source = await this.getQuote(companyId, id);
+
+    let customerId = source.customerId;
+    let customerName = source.customerName;
+    if (input.customerId) {
+      const customer = await this.customerService.getCustomer(companyId, input.customerId);
+      if (!customer) {
+        throw new AppError(400, "Customer not found", "CUSTOMER_NOT_FOUND");
+      }
+      customerId = new ObjectId(input.customerId);
+      customerName = `${customer.name} ${customer.surname}`;
+    }
+
+    // The active option shares its rooms with the working copy, so clone those once
+    const rooms = this.cloneRooms(source.rooms);
+    let activeOptionId: string | undefined;
+    const options = (source.options ?? []).map(option => {
+      const isActive = option.id === source.activeOptionId;
+      const copy = { ...option, id: new ObjectId().toHexString(), rooms: isActive ? rooms : this.cloneRooms(option.rooms) };
+      if (isActive) activeOptionId = copy.id;
+      return copy;
+    });
+
+    const settings = await this.getQuoteSettings(companyId);
+    const quoteNumber = await this.generateQuoteNumber(companyId, settings.numbering);
+
+    const quote: Quote = quoteSchema.parse({
+      companyId,
+      quoteNumber,
+      customerId,
+      customerName,
+      creatorId: actor.id,
+      creatorName: actor.name,
+      currency: source.currency,
+      conversions: { ...source.conversions, [source.currency]: 1 }, // Older quotes may lack the base rate
+      exchangeRateId: source.exchangeRateId,
+      rooms,
+      options,
+      activeOptionId,
+      status: "draft",
+      discount: source.discount,
+      vatRate: source.vatRate,
+      validUntil: Timestamp.fromMillis(Date.now() + settings.validityDays * DAY_MS),
+      duplicatedFromQuoteId: id,
+    });
+    if (customerId?.toString() !== source.customerId?.toString()) {
+      this.unlinkRoomImages(quote);
+    }
+    applyQuoteTotals(quote);
+
+    const created = await this.repository.create(companyId, quote);
+
+    logger.info("Quote duplicated", { quoteId: created._id, sourceQuoteId: id, companyId });
+    return await this.recordRevision(companyId, created, actor, "duplicate");
   }
 
   async getQuote(companyId: string, id: string): Promise<Quote> {
@@ -40,15 +186,18 @@ export class QuoteService {
     if (!quote) {
       throw new AppError(404, "Quote not found", "QUOTE_NOT_FOUND");
     }
-    return quote;
+
+    return this.withExpiry(quote);
   }
 
   async updateQuoteCustomer(
     companyId: string,
     id: string,
-    input: { customerId?: string; newCustomer?: { name: string; surname: string; phoneNumber?: string } }
+    input: { customerId?: string; newCustomer?: { name: string; surname: string; phoneNumber?: string } },
+    actor: QuoteActor,
+    expectedVersion?: number
   ): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     let customerId: string | undefined = input.customerId;
@@ -71,61 +220,120 @@ export class QuoteService {
       customerName = `${customer.name} ${customer.surname}`;
     }
 
-    const updated = await this.repository.update(companyId, id, {
+    // Linked photos belong to the previous customer
+    const customerChanged = customerId !== quote.customerId?.toString();
+    if (customerChanged) {
+      this.unlinkRoomImages(quote);
+    }
+
+    const updated = await this.saveQuote(companyId, quote, {
       customerId: customerId ? new ObjectId(customerId) : undefined,
       customerName,
+      ...(customerChanged && { rooms: quote.rooms, options: quote.options }),
     });
 
-    return updated!;
+    return await this.recordRevision(companyId, updated, actor, "update_customer");
   }
 
-  async updateQuoteCurrency(companyId: string, id: string, currency: Currency): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async updateQuoteCurrency(companyId: string, id: string, currency: Currency, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
-    // If currency changes, we need to reset conversions or keep only the new base as 1
-    const conversions = { [currency]: 1 };
+    // Re-derive conversions for the new base currency from the latest company rates,
+    // otherwise keep only the new base as 1
+    const latestRates = await this.exchangeRateService.getQuoteConversions(companyId, currency);
+    const conversions = latestRates?.conversions ?? { [currency]: 1 };
 
-    const updated = await this.repository.update(companyId, id, {
+    const updated = await this.saveWithTotals(companyId, quote, {
       currency,
-      conversions: conversions as any,
+      conversions,
+      exchangeRateId: latestRates?.exchangeRateId,
     });
-
-    return await this.recalculateQuoteTotal(companyId, id);
+    return await this.recordRevision(companyId, updated, actor, "update_currency");
   }
 
-  async updateQuoteConversions(companyId: string, id: string, conversions: Record<string, number>): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async updateQuoteConversions(
+    companyId: string,
+    id: string,
+    conversions: UpdateQuoteConversionsInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     // Ensure base currency rate is 1
     conversions[quote.currency] = 1;
 
-    await this.repository.update(companyId, id, { conversions: conversions as any });
-
-    return await this.recalculateQuoteTotal(companyId, id);
+    const updated = await this.saveWithTotals(companyId, quote, {
+      conversions,
+      exchangeRateId: undefined,
+    });
+    return await this.recordRevision(companyId, updated, actor, "update_conversions");
   }
 
-  async addRoom(companyId: string, id: string, name: string): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async addRoom(companyId: string, id: string, name: string, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     const room: QuoteRoom = {
       id: new ObjectId().toHexString(),
       name,
       items: [],
+      images: [],
+      subtotal: 0,
+      discountAmount: 0,
       total: 0,
     };
 
-    const updated = await this.repository.update(companyId, id, {
+    const updated = await this.saveQuote(companyId, quote, {
       rooms: [...quote.rooms, room],
     });
 
-    return updated!;
+    return await this.recordRevision(companyId, updated, actor, "add_room");
   }
 
-  async deleteRoom(companyId: string, id: string, roomId: string): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  /**
+   * Insert a new room built from a company room template, priced at current catalog and service prices.
+   */
+  async addRoomFromTemplate(
+    companyId: string,
+    id: string,
+    input: AddRoomFromTemplateInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    const template = await this.roomTemplateRepository.findById(companyId, input.templateId);
+    if (!template) {
+      throw new AppError(404, "Room template not found", "ROOM_TEMPLATE_NOT_FOUND");
+    }
+
+    const catalogItems = template.catalogItems.length > 0
+      ? await this.buildCatalogItems(quote, template.catalogItems)
+      : [];
+    const customItems = template.customItems.length > 0
+      ? await this.buildCustomItems(companyId, quote, template.customItems)
+      : [];
+
+    const room: QuoteRoom = {
+      id: new ObjectId().toHexString(),
+      name: input.name ?? template.name,
+      items: [...catalogItems, ...customItems],
+      images: [],
+      subtotal: 0,
+      discountAmount: 0,
+      total: 0,
+    };
+
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: [...quote.rooms, room] });
+    return await this.recordRevision(companyId, updated, actor, "add_room_from_template");
+  }
+
+  async deleteRoom(companyId: string, id: string, roomId: string, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     const roomExists = quote.rooms.some(r => r.id === roomId);
@@ -135,12 +343,12 @@ export class QuoteService {
 
     const updatedRooms = quote.rooms.filter(r => r.id !== roomId);
 
-    await this.repository.update(companyId, id, { rooms: updatedRooms });
-    return await this.recalculateQuoteTotal(companyId, id);
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: updatedRooms });
+    return await this.recordRevision(companyId, updated, actor, "delete_room");
   }
 
-  async updateRoomName(companyId: string, id: string, roomId: string, name: string): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async updateRoomName(companyId: string, id: string, roomId: string, name: string, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     const room = quote.rooms.find(r => r.id === roomId);
@@ -150,17 +358,114 @@ export class QuoteService {
 
     room.name = name;
 
-    const updated = await this.repository.update(companyId, id, { rooms: quote.rooms });
-    return updated!;
+    const updated = await this.saveQuote(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "rename_room");
+  }
+
+  /**
+   * Link measurement photos to a room, replacing its current images.
+   * Only images uploaded for the quote's customer can be linked.
+   */
+  async setRoomImages(
+    companyId: string,
+    id: string,
+    roomId: string,
+    input: SetRoomImagesInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    const room = quote.rooms.find(r => r.id === roomId);
+    if (!room) {
+      throw new AppError(404, "Room not found", "ROOM_NOT_FOUND");
+    }
+
+    room.images = await this.loadRoomImages(companyId, quote, input.imageIds);
+
+    const updated = await this.saveQuote(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "update_room_images");
+  }
+
+  async removeRoomImage(
+    companyId: string,
+    id: string,
+    roomId: string,
+    imageId: string,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    const room = quote.rooms.find(r => r.id === roomId);
+    if (!room) {
+      throw new AppError(404, "Room not found", "ROOM_NOT_FOUND");
+    }
+
+    const images = room.images ?? [];
+    if (!images.some(image => image.imageId === imageId)) {
+      throw new AppError(404, "Image is not linked to this room", "IMAGE_NOT_FOUND");
+    }
+    room.images = images.filter(image => image.imageId !== imageId);
+
+    const updated = await this.saveQuote(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "update_room_images");
+  }
+
+  async updateRoomDiscount(
+    companyId: string,
+    id: string,
+    roomId: string,
+    discount: Discount | null,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    const room = quote.rooms.find(r => r.id === roomId);
+    if (!room) {
+      throw new AppError(404, "Room not found", "ROOM_NOT_FOUND");
+    }
+
+    room.discount = discount ?? undefined;
+
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "update_room_discount");
+  }
+
+  /**
+   * Update the quote-level discount and/or VAT rate.
+   */
+  async updateQuotePricing(
+    companyId: string,
+    id: string,
+    input: UpdateQuotePricingInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    const updates: Partial<Quote> = {};
+    if (input.discount !== undefined) updates.discount = input.discount ?? undefined;
+    if (input.vatRate !== undefined) updates.vatRate = input.vatRate;
+
+    const updated = await this.saveWithTotals(companyId, quote, updates);
+    return await this.recordRevision(companyId, updated, actor, "update_pricing");
   }
 
   async addItemsToRoom(
     companyId: string,
     id: string,
     roomId: string,
-    itemsInput: { productId: string; quantity: number; customPrice?: number }[]
+    itemsInput: AddItemsToRoomInput["items"],
+    actor: QuoteActor,
+    expectedVersion?: number
   ): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     if (!quote.conversions || Object.keys(quote.conversions).length <= 1 && !quote.conversions[quote.currency]) {
@@ -172,39 +477,37 @@ export class QuoteService {
       throw new AppError(404, "Room not found", "ROOM_NOT_FOUND");
     }
 
-    const newItems: QuoteItem[] = [];
-
-    for (const input of itemsInput) {
-      const product = await this.productRepository.findById(input.productId);
-      if (!product) {
-        throw new AppError(400, `Product not found: ${input.productId}`, "PRODUCT_NOT_FOUND");
-      }
+    const newItems = await this.buildCatalogItems(quote, itemsInput);
+    room.items.push(...newItems);
 
-      const conversionRate = quote.conversions[product.currency];
-      if (!conversionRate) {
-        throw new AppError(400, `Conversion rate for ${product.currency} is not defined in this quote.`, "CONVERSION_MISSING");
-      }
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "add_items");
+  }
 
-      const unitPrice = input.customPrice ?? product.price;
-      const convertedUnitPrice = unitPrice * conversionRate;
-      const totalPrice = input.quantity * convertedUnitPrice;
+  /**
+   * Add non-catalog lines to a room: items from the company's service list, or free-form custom items.
+   */
+  async addCustomItemsToRoom(
+    companyId: string,
+    id: string,
+    roomId: string,
+    itemsInput: AddCustomItemsToRoomInput["items"],
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
 
-      newItems.push({
-        id: new ObjectId().toHexString(),
-        productId: product._id!,
-        name: product.name,
-        quantity: input.quantity,
-        unitPrice,
-        originalCurrency: product.currency,
-        convertedUnitPrice,
-        totalPrice,
-      });
+    const room = quote.rooms.find(r => r.id === roomId);
+    if (!room) {
+      throw new AppError(404, "Room not found", "ROOM_NOT_FOUND");
     }
 
+    const newItems = await this.buildCustomItems(companyId, quote, itemsInput);
     room.items.push(...newItems);
 
-    await this.repository.update(companyId, id, { rooms: quote.rooms });
-    return await this.recalculateQuoteTotal(companyId, id);
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "add_custom_items");
   }
 
   async updateItem(
@@ -212,9 +515,11 @@ export class QuoteService {
     id: string,
     roomId: string,
     itemId: string,
-    updates: { quantity?: number; customPrice?: number }
+    updates: UpdateQuoteItemInput,
+    actor: QuoteActor,
+    expectedVersion?: number
   ): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     const room = quote.rooms.find(r => r.id === roomId);
@@ -223,20 +528,39 @@ export class QuoteService {
     const item = room.items.find(i => i.id === itemId);
     if (!item) throw new AppError(404, "Item not found", "ITEM_NOT_FOUND");
 
-    if (updates.quantity !== undefined) item.quantity = updates.quantity;
-    if (updates.customPrice !== undefined) item.unitPrice = updates.customPrice;
+    if ((updates.name !== undefined || updates.unit !== undefined) && item.kind === "product") {
+      throw new AppError(400, "Name and unit can only be changed on non-catalog items.", "VALIDATION_ERROR");
+    }
+
+    if (updates.name !== undefined) item.name = updates.name;
+    if (updates.unit !== undefined) item.unit = updates.unit;
+    if (updates.customPrice !== undefined) {
+      item.unitPrice = updates.customPrice;
+      item.priceOverridden = true;
+    }
+    if (updates.discount !== undefined) item.discount = updates.discount ?? undefined;
+    if (updates.width !== undefined) item.width = updates.width;
+    if (updates.height !== undefined) item.height = updates.height;
+    if (updates.fullness !== undefined) item.fullness = updates.fullness;
+    if (updates.pricingUnit !== undefined) item.pricingUnit = updates.pricingUnit;
+
+    // Measured items derive their quantity; per-piece items take the raw quantity
+    item.quantity = calculateItemQuantity(item, updates.quantity ?? item.quantity);
 
     // Recalculate item prices
     const conversionRate = quote.conversions[item.originalCurrency];
+    if (!conversionRate) {
+      throw new AppError(400, `Conversion rate for ${item.originalCurrency} is not defined in this quote.`, "CONVERSION_MISSING");
+    }
     item.convertedUnitPrice = item.unitPrice * conversionRate;
     item.totalPrice = item.quantity * item.convertedUnitPrice;
 
-    await this.repository.update(companyId, id, { rooms: quote.rooms });
-    return await this.recalculateQuoteTotal(companyId, id);
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "update_item");
   }
 
-  async removeItem(companyId: string, id: string, roomId: string, itemId: string): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async removeItem(companyId: string, id: string, roomId: string, itemId: string, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
     const room = quote.rooms.find(r => r.id === roomId);
@@ -244,14 +568,24 @@ export class QuoteService {
 
     room.items = room.items.filter(i => i.id !== itemId);
 
-    await this.repository.update(companyId, id, { rooms: quote.rooms });
-    return await this.recalculateQuoteTotal(companyId, id);
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: quote.rooms });
+    return await this.recordRevision(companyId, updated, actor, "remove_item");
   }
 
-  async submitForApproval(companyId: string, id: string): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async submitForApproval(companyId: string, id: string, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     this.ensureEditable(quote);
 
+    // Only the chosen option goes to approval
+    if ((quote.options ?? []).length > 1) {
+      if (!quote.selectedOptionId) {
+        throw new AppError(400, "Select one of the quote options before submitting for approval.", "VALIDATION_ERROR");
+      }
+      if (quote.selectedOptionId !== quote.activeOptionId) {
+        this.loadOption(quote, quote.selectedOptionId);
+      }
+    }
+
     // Validation
     if (!quote.customerId) {
       throw new AppError(400, "Customer must be selected before submitting for approval.", "VALIDATION_ERROR");
@@ -265,65 +599,1087 @@ export class QuoteService {
       throw new AppError(400, "Quote total must be greater than 0.", "VALIDATION_ERROR");
     }
 
-    const updated = await this.repository.update(companyId, id, { status: "sent_for_approval" });
-    return updated!;
+    const now = Timestamp.now();
+    const approvalLog: ApprovalEvent[] = [
+      ...(quote.approvalLog ?? []),
+      { action: "submitted", userId: actor.id, userName: actor.name, at: now },
+    ];
+
+    // Quotes at or below the company's threshold for their currency skip manual approval
+    const settings = await this.getQuoteSettings(companyId);
+    const threshold = settings.approvalThresholds?.[quote.currency];
+    if (threshold !== undefined && quote.total <= threshold) {
+      approvalLog.push({ action: "auto_approved", userId: actor.id, userName: actor.name, at: now });
+
+      const updated = await this.saveWithTotals(companyId, quote, {
+        ...this.optionState(quote),
+        status: "approved",
+        approvalLog,
+      });
+      logger.info("Quote auto-approved below threshold", { quoteId: id, companyId, threshold });
+      return await this.recordRevision(companyId, updated, actor, "auto_approve");
+    }
+
+    const updated = await this.saveWithTotals(companyId, quote, {
+      ...this.optionState(quote),
+      status: "sent_for_approval",
+      approvalLog,
+    });
+    return await this.recordRevision(companyId, updated, actor, "submit_for_approval");
   }
 
-  async approveQuote(companyId: string, id: string): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async approveQuote(companyId: string, id: string, input: ApproveQuoteInput, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    this.assertAdmin(actor, "Only admin users can approve quotes");
+
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     if (quote.status !== "sent_for_approval") {
       throw new AppError(400, "Only quotes sent for approval can be approved.", "INVALID_STATUS");
     }
 
-    const updated = await this.repository.update(companyId, id, { status: "approved" });
-    return updated!;
+    // The approver may pick a different option than the one submitted
+    if ((quote.options ?? []).length > 1) {
+      const optionId = input.optionId ?? quote.selectedOptionId;
+      if (!optionId) {
+        throw new AppError(400, "Choose which option to approve.", "VALIDATION_ERROR");
+      }
+      if (optionId !== quote.activeOptionId) {
+        this.loadOption(quote, optionId);
+      }
+      quote.selectedOptionId = optionId;
+    }
+
+    const event: ApprovalEvent = {
+      action: "approved",
+      userId: actor.id,
+      userName: actor.name,
+      comment: input.comment,
+      at: Timestamp.now(),
+    };
+
+    // Version-checked: quotes awaiting approval can still be edited, and the option state is rewritten here
+    const updated = await this.saveQuote(companyId, quote, {
+      ...this.optionState(quote),
+      status: "approved",
+      approvalLog: [...(quote.approvalLog ?? []), event],
+    });
+
+    return await this.recordRevision(companyId, updated, actor, "approve");
   }
 
-  async denyQuote(companyId: string, id: string): Promise<Quote> {
-    const quote = await this.getQuote(companyId, id);
+  async denyQuote(companyId: string, id: string, input: DenyQuoteInput, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    this.assertAdmin(actor, "Only admin users can deny quotes");
+
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
     if (quote.status !== "sent_for_approval") {
       throw new AppError(400, "Only quotes sent for approval can be denied.", "INVALID_STATUS");
     }
 
-    const updated = await this.repository.update(companyId, id, { status: "denied" });
+    const event: ApprovalEvent = {
+      action: "denied",
+      userId: actor.id,
+      userName: actor.name,
+      reason: input.reason,
+      at: Timestamp.now(),
+    };
+
+    const updated = await this.repository.updateIfStatus(companyId, id, "sent_for_approval", {
+      status: "denied",
+      approvalLog: [...(quote.approvalLog ?? []), event],
+    });
+    if (!updated) {
+      throw new AppError(409, "Quote status changed while denying.", "STATUS_CONFLICT");
+    }
+
+    return await this.recordRevision(companyId, updated, actor, "deny");
+  }
+
+  // Cancel, archive and delete
+
+  /**
+   * Cancel an abandoned quote. Approved quotes can only be cancelled by admins.
+   */
+  async cancelQuote(
+    companyId: string,
+    id: string,
+    input: CloseQuoteInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    if (!CANCELLABLE_QUOTE_STATUSES.includes(quote.status)) {
+      throw new AppError(400, `Quotes with status "${quote.status}" cannot be cancelled.`, "INVALID_STATUS");
+    }
+    if (quote.status === "approved") {
+      this.assertAdmin(actor, "Only admin users can cancel approved quotes");
+    }
+
+    const updated = await this.saveQuote(companyId, quote, {
+      status: "cancelled",
+      cancellation: this.closure(quote, input, actor),
+    });
+
+    logger.info("Quote cancelled", { quoteId: id, companyId });
+    return await this.recordRevision(companyId, updated, actor, "cancel");
+  }
+
+  /**
+   * Hide a quote from the default listing. It stays searchable and can be unarchived.
+   */
+  async archiveQuote(
+    companyId: string,
+    id: string,
+    input: CloseQuoteInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    if (quote.status === "archived") {
+      throw new AppError(400, "Quote is already archived.", "INVALID_STATUS");
+    }
+
+    const updated = await this.saveQuote(companyId, quote, {
+      status: "archived",
+      archival: this.closure(quote, input, actor),
+    });
+
+    logger.info("Quote archived", { quoteId: id, companyId });
+    return await this.recordRevision(companyId, updated, actor, "archive");
+  }
+
+  /**
+   * Move an archived quote back to the status it had before archiving.
+   */
+  async unarchiveQuote(companyId: string, id: string, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    if (quote.status !== "archived" || !quote.archival) {
+      throw new AppError(400, "Only archived quotes can be unarchived.", "INVALID_STATUS");
+    }
+
+    const updated = await this.saveQuote(companyId, quote, {
+      status: quote.archival.previousStatus,
+      archival: undefined,
+    });
+
+    return await this.recordRevision(companyId, updated, actor, "unarchive");
+  }
+
+  /**
+   * Permanently delete a draft together with its revision history and share links (admin only).
+   */
+  async deleteQuote(companyId: string, id: string, actor: QuoteActor, expectedVersion?: number): Promise<void> {
+    this.assertAdmin(actor, "Only admin users can delete quotes");
+
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    if (quote.status !== "draft") {
+      throw new AppError(400, "Only draft quotes can be deleted. Cancel or archive it instead.", "INVALID_STATUS");
+    }
+
+    const deleted = await this.repository.delete(companyId, id, "draft");
+    if (!deleted) {
+      throw new AppError(409, "Quote status changed while deleting.", "STATUS_CONFLICT");
+    }
+    await Promise.all([
+      this.revisionRepository.deleteByQuoteId(companyId, id),
+      this.shareLinkRepository.deleteByQuoteId(companyId, id),
+    ]);
+
+    logger.info("Quote deleted", { quoteId: id, companyId, userId: actor.id });
+  }
+
+  // Alternative options
+
+  /**
+   * Add an alternative option and make it the working copy. The first call also turns the quote's
+   * current content into an option, so a quote with options always has at least two.
+   */
+  async addOption(
+    companyId: string,
+    id: string,
+    input: AddQuoteOptionInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    const options = quote.options ?? [];
+    if (options.length === 0) {
+      const current: QuoteOption = {
+        id: new ObjectId().toHexString(),
+        name: "Seçenek 1",
+        rooms: quote.rooms,
+        discount: quote.discount,
+        subtotal: quote.subtotal,
+        discountTotal: quote.discountTotal,
+        taxTotal: quote.taxTotal,
+        total: quote.total,
+      };
+      options.push(current);
+      quote.activeOptionId = current.id;
+    }
+
+    const option: QuoteOption = {
+      id: new ObjectId().toHexString(),
+      name: input.name,
+      rooms: input.copyFromActive ? this.cloneRooms(quote.rooms) : [],
+      discount: input.copyFromActive ? quote.discount : undefined,
+      subtotal: 0,
+      discountTotal: 0,
+      taxTotal: 0,
+      total: 0,
+    };
+    options.push(option);
+    quote.options = options;
+
+    this.loadOption(quote, option.id);
+
+    const updated = await this.saveWithTotals(companyId, quote, this.optionState(quote));
+    return await this.recordRevision(companyId, updated, actor, "add_option");
+  }
+
+  async renameOption(
+    companyId: string,
+    id: string,
+    optionId: string,
+    name: string,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    this.findOption(quote, optionId).name = name;
+
+    const updated = await this.saveQuote(companyId, quote, { options: quote.options });
+    return await this.recordRevision(companyId, updated, actor, "rename_option");
+  }
+
+  /**
+   * Delete an inactive option. When only one option would remain, the quote goes back to having none.
+   */
+  async deleteOption(
+    companyId: string,
+    id: string,
+    optionId: string,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    this.findOption(quote, optionId);
+    if (optionId === quote.activeOptionId) {
+      throw new AppError(400, "Switch to another option before deleting this one.", "VALIDATION_ERROR");
+    }
+
+    quote.options = quote.options.filter(o => o.id !== optionId);
+    if (quote.selectedOptionId === optionId) {
+      quote.selectedOptionId = undefined;
+    }
+    if (quote.options.length === 1) {
+      quote.options = [];
+      quote.activeOptionId = undefined;
+      quote.selectedOptionId = undefined;
+    }
+
+    const updated = await this.saveQuote(companyId, quote, this.optionState(quote));
+    return await this.recordRevision(companyId, updated, actor, "delete_option");
+  }
+
+  /**
+   * Load another option into the quote's rooms so it can be edited.
+   */
+  async activateOption(
+    companyId: string,
+    id: string,
+    optionId: string,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    if (optionId === quote.activeOptionId) {
+      return quote;
+    }
+    this.loadOption(quote, optionId);
+
+    const updated = await this.saveWithTotals(companyId, quote, this.optionState(quote));
+    return await this.recordRevision(companyId, updated, actor, "activate_option");
+  }
+
+  /**
+   * Record the option the customer chose. It is also loaded as the working copy, and is the one
+   * that goes to approval and conversion.
+   */
+  async selectOption(
+    companyId: string,
+    id: string,
+    optionId: string,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    if (optionId !== quote.activeOptionId) {
+      this.loadOption(quote, optionId);
+    }
+    quote.selectedOptionId = optionId;
+
+    const updated = await this.saveWithTotals(companyId, quote, this.optionState(quote));
+    return await this.recordRevision(companyId, updated, actor, "select_option");
+  }
+
+  async listComments(companyId: string, id: string): Promise<QuoteComment[]> {
+    const quote = await this.getQuote(companyId, id);
+    return quote.comments ?? [];
+  }
+
+  /**
+   * Add a comment to the approval discussion. Only possible while the quote awaits approval.
+   */
+  async addComment(companyId: string, id: string, input: AddQuoteCommentInput, actor: QuoteActor): Promise<Quote> {
+    const quote = await this.getQuote(companyId, id);
+    if (quote.status !== "sent_for_approval") {
+      throw new AppError(400, "Comments can only be added while the quote is sent for approval.", "INVALID_STATUS");
+    }
+
+    const updated = await this.repository.addComment(companyId, id, {
+      id: new ObjectId().toHexString(),
+      userId: actor.id,
+      userName: actor.name,
+      message: input.message,
+      createdAt: Timestamp.now(),
+    });
+
     return updated!;
   }
 
-  async listQuotes(companyId: string, userId: string, role: string): Promise<Quote[]> {
-    const isAdmin = role === "admin" || role === "sudo";
-    return await this.repository.findAll(companyId, isAdmin ? {} : { creatorId: userId });
+  /**
+   * Convert an approved quote into a pending sale for the quote's customer.
+   * The quote is moved to "converted" first so concurrent requests cannot create two sales.
+   */
+  async convertToSale(
+    companyId: string,
+    id: string,
+    input: { description?: string },
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<{ quote: Quote; sale: Sale }> {
+    this.assertAdmin(actor, "Only admin users can convert quotes to sales");
+
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    if (quote.status !== "approved") {
+      throw new AppError(400, "Only approved quotes can be converted to a sale.", "INVALID_STATUS");
+    }
+
+    if (!quote.customerId) {
+      throw new AppError(400, "Quote has no customer to create a sale for.", "VALIDATION_ERROR");
+    }
+
+    const claimed = await this.repository.updateIfStatus(companyId, id, "approved", { status: "converted" });
+    if (!claimed) {
+      throw new AppError(409, "Quote has already been converted.", "QUOTE_ALREADY_CONVERTED");
+    }
+
+    let sale: Sale;
+    try {
+      sale = await this.saleService.createSale(companyId, actor.id, actor.name, actor.role, {
+        customerId: quote.customerId.toString(),
+        createdByUserId: actor.id,
+        createdByUserName: actor.name,
+        totalAmount: quote.total,
+        currency: quote.currency,
+        status: "pending",
+        description: input.description ?? this.defaultSaleDescription(quote),
+        quoteId: id,
+        createdAt: Timestamp.now(),
+        logs: [],
+      });
+    } catch (error) {
+      // Release the quote so the conversion can be retried
+      await this.repository.updateIfStatus(companyId, id, "converted", { status: "approved" });
+      throw error;
+    }
+
+    const updated = await this.repository.update(companyId, id, { saleId: sale._id?.toString() });
+
+    logger.info("Quote converted to sale", { quoteId: id, saleId: sale._id, companyId });
+    return { quote: await this.recordRevision(companyId, updated!, actor, "convert_to_sale"), sale };
   }
 
-  private async recalculateQuoteTotal(companyId: string, id: string): Promise<Quote> {
-    const quote = await this.repository.findById(companyId, id);
-    if (!quote) return null as any;
+  // Revision history
+
+  async listRevisions(companyId: string, id: string): Promise<QuoteRevisionSummary[]> {
+    await this.getQuote(companyId, id);
+    return await this.revisionRepository.findSummariesByQuoteId(companyId, id);
+  }
+
+  async getRevision(companyId: string, id: string, revision: number): Promise<QuoteRevision> {
+    const found = await this.revisionRepository.findByRevision(companyId, id, revision);
+    if (!found) {
+      throw new AppError(404, `Revision ${revision} not found`, "REVISION_NOT_FOUND");
+    }
+    return found;
+  }
+
+  async diffRevisions(companyId: string, id: string, from: number, to: number): Promise<QuoteRevisionDiff> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.getRevision(companyId, id, from),
+      this.getRevision(companyId, id, to),
+    ]);
+    return diffQuoteRevisions(fromRevision, toRevision);
+  }
+
+  /**
+   * Restore the content (customer, currency, conversions, rooms, options) of an older revision.
+   * The restore itself is recorded as a new revision, so history is never rewritten.
+   */
+  async restoreRevision(companyId: string, id: string, revision: number, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    this.ensureEditable(quote);
+
+    const snapshot = await this.getRevision(companyId, id, revision);
+
+    const updates: Partial<Quote> = {
+      customerId: snapshot.customerId,
+      customerName: snapshot.customerName,
+      currency: snapshot.currency,
+      conversions: snapshot.conversions,
+      exchangeRateId: snapshot.exchangeRateId ?? undefined,
+      rooms: snapshot.rooms,
+      discount: snapshot.discount ?? undefined,
+      vatRate: snapshot.vatRate ?? quote.vatRate,
+    };
+    // Older revisions only hold the active option's rooms; the quote's options are left as they are
+    if (snapshot.options) {
+      updates.options = snapshot.options;
+      updates.activeOptionId = snapshot.activeOptionId ?? undefined;
+      updates.selectedOptionId = snapshot.selectedOptionId ?? undefined;
+    }
+
+    const updated = await this.saveWithTotals(companyId, quote, updates);
+    logger.info("Quote revision restored", { quoteId: id, revision, companyId });
+    return await this.recordRevision(companyId, updated, actor, "restore", revision);
+  }
+
+  /**
+   * Extend a quote's validity. Expired quotes are re-issued as drafts, by default at current catalog prices.
+   */
+  async extendQuote(companyId: string, id: string, input: ExtendQuoteInput, actor: QuoteActor, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    const isExpired = quote.status === "expired";
+
+    if (!isExpired && !EXPIRABLE_QUOTE_STATUSES.includes(quote.status)) {
+      throw new AppError(400, "Only draft, pending or expired quotes can be extended.", "INVALID_STATUS");
+    }
+
+    const validityDays = input.validityDays ?? await this.getValidityDays(companyId);
+    const updates: Partial<Quote> = {
+      validUntil: Timestamp.fromMillis(Date.now() + validityDays * DAY_MS),
+    };
+
+    if (isExpired) {
+      updates.status = "draft";
+    }
+
+    if (input.refreshPrices ?? isExpired) {
+      await this.refreshCatalogPrices(quote);
+      updates.rooms = quote.rooms;
+    }
+
+    const updated = await this.saveWithTotals(companyId, quote, updates);
+
+    logger.info(isExpired ? "Quote re-issued" : "Quote validity extended", { quoteId: id, companyId, validityDays });
+    return await this.recordRevision(companyId, updated, actor, isExpired ? "reissue" : "extend");
+  }
+
+  /**
+   * Compare every catalog item against the product's current catalog price.
+   */
+  async checkCatalogPrices(companyId: string, id: string): Promise<QuotePriceCheck> {
+    const quote = await this.getQuote(companyId, id);
+    const { changes, missingProducts } = await this.findCatalogPriceChanges(quote);
+
+    // Manual prices differ from the catalog on purpose and do not make the quote stale
+    return { quoteId: id, stale: changes.some(c => !c.priceOverridden), changes, missingProducts };
+  }
+
+  /**
+   * Update stale items to their current catalog price, either all of them or only the selected item IDs.
+   */
+  async refreshCatalogItemPrices(
+    companyId: string,
+    id: string,
+    input: RefreshQuotePricesInput,
+    actor: QuoteActor,
+    expectedVersion?: number
+  ): Promise<{ quote: Quote; refreshed: QuotePriceChange[] }> {
+    const quote = await this.getQuoteForUpdate(companyId, id, expectedVersion);
+    if (quote.status !== "draft") {
+      throw new AppError(400, "Only draft quotes can have their prices refreshed.", "INVALID_STATUS");
+    }
+
+    const refreshed = await this.refreshCatalogPrices(quote, input.itemIds);
+    if (refreshed.length === 0) {
+      return { quote, refreshed };
+    }
+
+    const updated = await this.saveWithTotals(companyId, quote, { rooms: quote.rooms });
+
+    logger.info("Quote prices refreshed", { quoteId: id, companyId, count: refreshed.length });
+    return { quote: await this.recordRevision(companyId, updated, actor, "refresh_prices"), refreshed };
+  }
+
+  /**
+   * Margin per item, room and quote based on the catalog cost of each item (admin only).
+   */
+  async getQuoteMargins(companyId: string, id: string, actor: QuoteActor): Promise<QuoteMarginReport> {
+    this.assertAdmin(actor, "Only admin users can view quote margins");
+
+    const quote = await this.getQuote(companyId, id);
+    return calculateQuoteMargins(quote);
+  }
+
+  /**
+   * List quotes with filters, sorting and pagination. Non-admin users only see their own quotes.
+   */
+  async listQuotes(
+    companyId: string,
+    userId: string,
+    role: string,
+    query: ListQuotesQuery
+  ): Promise<{ quotes: Quote[]; total: number }> {
+    const { quotes, total } = await this.repository.findAll(companyId, {
+      ...query,
+      creatorId: isAdmin(role) ? query.creatorId : userId,
+    });
+
+    return { quotes: quotes.map(quote => this.withExpiry(quote)), total };
+  }
+
+  /**
+   * Persist the "expired" status of overdue quotes. Run on a schedule; reads only derive it.
+   */
+  async expireOverdueQuotes(companyId: string): Promise<number> {
+    return await this.repository.expireOverdue(companyId);
+  }
+
+  /**
+   * Render the quote as a printable PDF document branded with the company name.
+   */
+  async exportQuotePdf(companyId: string, id: string): Promise<{ buffer: Uint8Array; filename: string }> {
+    const quote = await this.getQuote(companyId, id);
+
+    const company = await this.companyRepository.findById(companyId);
+    if (!company) {
+      throw new AppError(404, "Company not found", "COMPANY_NOT_FOUND");
+    }
+
+    const images = await this.loadPdfImages(companyId, quote);
+    const buffer = await renderQuotePdf(quote, { companyName: company.name, images });
+
+    logger.info("Quote PDF exported", { quoteId: id, companyId });
+    return { buffer, filename: `${quote.quoteNumber}.pdf` };
+  }
+
+  /**
+   * Export the quote as an Excel workbook with a summary sheet and one sheet per room.
+   */
+  async exportQuoteXlsx(companyId: string, id: string): Promise<{ buffer: Buffer; filename: string }> {
+    const quote = await this.getQuote(companyId, id);
+
+    const company = await this.companyRepository.findById(companyId);
+    if (!company) {
+      throw new AppError(404, "Company not found", "COMPANY_NOT_FOUND");
+    }
+
+    const buffer = renderQuoteXlsx(quote, { companyName: company.name });
+
+    logger.info("Quote XLSX exported", { quoteId: id, companyId });
+    return { buffer, filename: `${quote.quoteNumber}.xlsx` };
+  }
+
+  /**
+   * Load a quote that is about to be modified. When the client sent the version it last saw
+   * (If-Match), a newer version on the server is rejected before any work is done.
+   */
+  private async getQuoteForUpdate(companyId: string, id: string, expectedVersion?: number): Promise<Quote> {
+    const quote = await this.getQuote(companyId, id);
+    if (expectedVersion !== undefined && expectedVersion !== (quote.version ?? 0)) {
+      throw this.versionConflict(quote);
+    }
+    return quote;
+  }
+
+  /**
+   * Write changes only if the quote still has the version it was read with, bumping the version.
+   * Concurrent edits therefore fail with a 409 instead of overwriting each other's rooms and items.
+   */
+  private async saveQuote(companyId: string, quote: Quote, updates: Partial<Quote>): Promise<Quote> {
+    const id = quote._id!.toString();
+
+    // Keep the active option's stored copy in line with the working rooms and totals
+    const next = { ...quote, ...updates };
+    if (next.activeOptionId && next.options?.length) {
+      this.syncActiveOption(next);
+      updates = { ...updates, options: next.options };
+    }
+
+    const updated = await this.repository.update(companyId, id, updates, { expectedVersion: quote.version ?? 0 });
+    if (!updated) {
+      const current = await this.repository.findById(companyId, id);
+      throw this.versionConflict(current);
+    }
+    return updated;
+  }
 
-    let grandTotal = 0;
+  /**
+   * Apply updates to the in-memory quote, recompute all totals and save everything in one write.
+   */
+  private async saveWithTotals(companyId: string, quote: Quote, updates: Partial<Quote>): Promise<Quote> {
+    Object.assign(quote, updates);
+    applyQuoteTotals(quote);
+
+    return await this.saveQuote(companyId, quote, {
+      ...updates,
+      rooms: quote.rooms,
+      subtotal: quote.subtotal,
+      discountTotal: quote.discountTotal,
+      taxTotal: quote.taxTotal,
+      total: quote.total,
+    });
+  }
+
+  /**
+   * Build quote items from catalog products, priced at the marked-up catalog price.
+   */
+  private async buildCatalogItems(quote: Quote, itemsInput: AddItemsToRoomInput["items"]): Promise<QuoteItem[]> {
+    const products = await this.productService.getPricedProducts(itemsInput.map(i => i.productId));
+    const productsById = new Map(products.map(p => [p._id!.toString(), p]));
+
+    const newItems: QuoteItem[] = [];
+
+    for (const input of itemsInput) {
+      const product = productsById.get(input.productId);
+      if (!product) {
+        throw new AppError(400, `Product not found: ${input.productId}`, "PRODUCT_NOT_FOUND");
+      }
+
+      const conversionRate = quote.conversions[product.currency];
+      if (!conversionRate) {
+        throw new AppError(400, `Conversion rate for ${product.currency} is not defined in this quote.`, "CONVERSION_MISSING");
+      }
+
+      const quantity = calculateItemQuantity(input, input.quantity);
+      // Sell at the marked-up catalog price unless the user overrides it
+      const unitPrice = input.customPrice ?? product.priceWithRate ?? product.price;
+      const convertedUnitPrice = unitPrice * conversionRate;
+      const totalPrice = quantity * convertedUnitPrice;
+
+      newItems.push({
+        id: new ObjectId().toHexString(),
+        kind: "product",
+        productId: product._id!,
+        name: product.name,
+        quantity,
+        unitPrice,
+        unitCost: product.price,
+        priceOverridden: input.customPrice !== undefined || undefined,
+        originalCurrency: product.currency,
+        convertedUnitPrice,
+        totalPrice,
+        discount: input.discount,
+        discountAmount: 0, // Resolved by saveWithTotals
+        width: input.width,
+        height: input.height,
+        fullness: input.fullness,
+        pricingUnit: input.pricingUnit,
+      });
+    }
+
+    return newItems;
+  }
+
+  /**
+   * Build quote items from the company's service list or free-form input.
+   */
+  private async buildCustomItems(
+    companyId: string,
+    quote: Quote,
+    itemsInput: AddCustomItemsToRoomInput["items"]
+  ): Promise<QuoteItem[]> {
+    const serviceItemIds = itemsInput.flatMap(i => (i.serviceItemId ? [i.serviceItemId] : []));
+    const serviceItems = serviceItemIds.length > 0
+      ? await this.serviceItemRepository.findByIds(companyId, serviceItemIds)
+      : [];
+    const serviceItemsById = new Map(serviceItems.map(s => [s._id!.toString(), s]));
+
+    const newItems: QuoteItem[] = [];
+
+    for (const input of itemsInput) {
+      let item: Pick<QuoteItem, "kind" | "serviceItemId" | "name" | "unit" | "unitPrice" | "unitCost" | "originalCurrency">;
+
+      if (input.serviceItemId) {
+        const serviceItem = serviceItemsById.get(input.serviceItemId);
+        if (!serviceItem) {
+          throw new AppError(400, `Service item not found: ${input.serviceItemId}`, "SERVICE_ITEM_NOT_FOUND");
+        }
+        if (!serviceItem.isActive) {
+          throw new AppError(400, `Service item is inactive: ${serviceItem.name}`, "SERVICE_ITEM_INACTIVE");
+        }
+
+        item = {
+          kind: "service",
+          serviceItemId: serviceItem._id!,
+          name: input.name ?? serviceItem.name,
+          unit: input.unit ?? serviceItem.unit,
+          unitPrice: input.unitPrice ?? serviceItem.unitPrice,
+          unitCost: input.unitCost ?? serviceItem.unitCost,
+          originalCurrency: input.currency ?? serviceItem.currency,
+        };
+      } else {
+        item = {
+          kind: "custom",
+          name: input.name!,
+          unit: input.unit,
+          unitPrice: input.unitPrice!,
+          unitCost: input.unitCost,
+          originalCurrency: input.currency!,
+        };
+      }
+
+      const conversionRate = quote.conversions[item.originalCurrency];
+      if (!conversionRate) {
+        throw new AppError(400, `Conversion rate for ${item.originalCurrency} is not defined in this quote.`, "CONVERSION_MISSING");
+      }
+
+      const quantity = calculateItemQuantity(input, input.quantity);
+      const convertedUnitPrice = item.unitPrice * conversionRate;
+
+      newItems.push({
+        id: new ObjectId().toHexString(),
+        ...item,
+        quantity,
+        convertedUnitPrice,
+        totalPrice: quantity * convertedUnitPrice,
+        discount: input.discount,
+        discountAmount: 0, // Resolved by saveWithTotals
+        width: input.width,
+        height: input.height,
+        fullness: input.fullness,
+        pricingUnit: input.pricingUnit,
+      });
+    }
+
+    return newItems;
+  }
+
+  private closure(quote: Quote, input: CloseQuoteInput, actor: QuoteActor): QuoteClosure {
+    return {
+      reason: input.reason,
+      previousStatus: quote.status,
+      userId: actor.id,
+      userName: actor.name,
+      at: Timestamp.now(),
+    };
+  }
+
+  private findOption(quote: Quote, optionId: string): QuoteOption {
+    const option = quote.options?.find(o => o.id === optionId);
+    if (!option) {
+      throw new AppError(404, "Option not found", "OPTION_NOT_FOUND");
+    }
+    return option;
+  }
+
+  private syncActiveOption(quote: Quote): void {
+    const option = quote.options?.find(o => o.id === quote.activeOptionId);
+    if (!option) return;
+
+    option.rooms = quote.rooms;
+    option.discount = quote.discount;
+    option.subtotal = quote.subtotal;
+    option.discountTotal = quote.discountTotal;
+    option.taxTotal = quote.taxTotal;
+    option.total = quote.total;
+  }
+
+  /**
+   * Make another option the working copy in memory: its rooms and discount become the quote's and
+   * totals are recomputed. The previously active option keeps its latest content.
+   */
+  private loadOption(quote: Quote, optionId: string): void {
+    const option = this.findOption(quote, optionId);
+    this.syncActiveOption(quote);
+
+    quote.rooms = option.rooms;
+    quote.discount = option.discount;
+    quote.activeOptionId = option.id;
+    applyQuoteTotals(quote);
+    this.syncActiveOption(quote);
+  }
+
+  /**
+   * Fields to persist after switching or changing options.
+   */
+  private optionState(quote: Quote): Partial<Quote> {
+    return {
+      rooms: quote.rooms,
+      discount: quote.discount,
+      subtotal: quote.subtotal,
+      discountTotal: quote.discountTotal,
+      taxTotal: quote.taxTotal,
+      total: quote.total,
+      options: quote.options,
+      activeOptionId: quote.activeOptionId,
+      selectedOptionId: quote.selectedOptionId,
+    };
+  }
+
+  /**
+   * Resolve image IDs to room image metadata, keeping the requested order.
+   */
+  private async loadRoomImages(companyId: string, quote: Quote, imageIds: string[]): Promise<QuoteRoomImage[]> {
+    const ids = [...new Set(imageIds)];
+    if (ids.length === 0) return [];
+
+    if (!quote.customerId) {
+      throw new AppError(400, "Set a customer on the quote before linking images", "CUSTOMER_REQUIRED");
+    }
+    if (ids.some(imageId => !ObjectId.isValid(imageId))) {
+      throw new AppError(400, "Invalid image ID", "VALIDATION_ERROR");
+    }
+
+    const images = await this.customerImageService.getImagesMetadata(companyId, ids);
+    const byId = new Map(images.map(image => [image._id!.toString(), image]));
+
+    const missing = ids.filter(imageId => !byId.has(imageId));
+    if (missing.length > 0) {
+      throw new AppError(404, "Image not found", "IMAGE_NOT_FOUND", { imageIds: missing });
+    }
+
+    const customerId = quote.customerId.toString();
+    const foreign = ids.filter(imageId => byId.get(imageId)!.customerId !== customerId);
+    if (foreign.length > 0) {
+      throw new AppError(400, "Images must belong to the quote's customer", "IMAGE_CUSTOMER_MISMATCH", { imageIds: foreign });
+    }
+
+    return ids.map(imageId => {
+      const image = byId.get(imageId)!;
+      return {
+        imageId,
+        title: image.title,
+        filename: image.filename,
+        mimeType: image.mimeType,
+        uploadedAt: image.uploadedAt,
+      };
+    });
+  }
+
+  /**
+   * Download the room photos that can be embedded in the PDF. Images deleted since they were
+   * linked are skipped.
+   */
+  private async loadPdfImages(companyId: string, quote: Quote): Promise<Map<string, { data: Uint8Array; mimeType: string }>> {
+    const images = new Map<string, { data: Uint8Array; mimeType: string }>();
 
     for (const room of quote.rooms) {
-      let roomTotal = 0;
-      for (const item of room.items) {
-        // Re-apply conversion in case rates changed
-        const rate = quote.conversions[item.originalCurrency] || 1;
-        item.convertedUnitPrice = item.unitPrice * rate;
-        item.totalPrice = item.quantity * item.convertedUnitPrice;
-        roomTotal += item.totalPrice;
+      for (const image of room.images ?? []) {
+        if (images.has(image.imageId) || !PDF_IMAGE_TYPES.includes(image.mimeType)) continue;
+
+        try {
+          const { buffer, metadata } = await this.customerImageService.getImageData(companyId, image.imageId);
+          images.set(image.imageId, { data: buffer, mimeType: metadata.mimeType });
+        } catch (error) {
+          if (!(error instanceof AppError && error.statusCode === 404)) throw error;
+        }
       }
-      room.total = roomTotal;
-      grandTotal += roomTotal;
     }
 
-    const updated = await this.repository.update(companyId, id, {
+    return images;
+  }
+
+  private unlinkRoomImages(quote: Quote): void {
+    for (const room of [...quote.rooms, ...(quote.options ?? []).flatMap(option => option.rooms)]) {
+      room.images = [];
+    }
+  }
+
+  /**
+   * Copy rooms and items with fresh local IDs.
+   */
+  private cloneRooms(rooms: QuoteRoom[]): QuoteRoom[] {
+    return rooms.map(room => ({
+      ...room,
+      id: new ObjectId().toHexString(),
+      items: room.items.map(item => ({ ...item, id: new ObjectId().toHexString() })),
+    }));
+  }
+
+  private defaultSaleDescription(quote: Quote): string {
+    const option = quote.options?.find(o => o.id === quote.selectedOptionId);
+    return option
+      ? `${quote.quoteNumber} numaralı teklifin "${option.name}" seçeneğinden oluşturuldu`
+      : `${quote.quoteNumber} numaralı tekliften oluşturuldu`;
+  }
+
+  private versionConflict(current: Quote | null): AppError {
+    return new AppError(
+      409,
+      "Quote was modified by someone else. Reload it and try again.",
+      "VERSION_CONFLICT",
+      { current }
+    );
+  }
+
+  /**
+   * Snapshot the quote's current content as the next numbered revision.
+   */
+  private async recordRevision(
+    companyId: string,
+    quote: Quote,
+    actor: QuoteActor,
+    action: string,
+    restoredFromRevision?: number
+  ): Promise<Quote> {
+    const quoteId = quote._id!.toString();
+    await this.revisionRepository.createNext(companyId, {
+      quoteId,
+      action,
+      restoredFromRevision,
+      customerId: quote.customerId,
+      customerName: quote.customerName,
+      currency: quote.currency,
+      conversions: quote.conversions,
+      exchangeRateId: quote.exchangeRateId,
       rooms: quote.rooms,
-      total: grandTotal,
+      discount: quote.discount,
+      vatRate: quote.vatRate,
+      options: quote.options,
+      activeOptionId: quote.activeOptionId,
+      selectedOptionId: quote.selectedOptionId,
+      status: quote.status,
+      total: quote.total,
+      createdByUserId: actor.id,
+      createdByUserName: actor.name,
+      createdAt: Timestamp.now(),
     });
 
-    return updated!;
+    return quote;
+  }
+
+  private async findCatalogPriceChanges(
+    quote: Quote
+  ): Promise<Pick<QuotePriceCheck, "changes" | "missingProducts">> {
+    const isCatalogItem = (item: QuoteItem) => item.kind === "product" && !!item.productId;
+    const productIds = [
+      ...new Set(quote.rooms.flatMap(r => r.items.filter(isCatalogItem).map(i => i.productId!.toString()))),
+    ];
+    const products = await this.productService.getPricedProducts(productIds);
+    const productsById = new Map(products.map(p => [p._id!.toString(), p]));
+
+    const changes: QuotePriceChange[] = [];
+    const missingProducts: QuotePriceCheck["missingProducts"] = [];
+
+    for (const room of quote.rooms) {
+      for (const item of room.items.filter(isCatalogItem)) {
+        const productId = item.productId!.toString();
+        const product = productsById.get(productId);
+        if (!product) {
+          missingProducts.push({ roomId: room.id, itemId: item.id, productId, name: item.name });
+          continue;
+        }
+
+        const catalogUnitPrice = product.priceWithRate ?? product.price;
+        if (catalogUnitPrice === item.unitPrice && product.currency === item.originalCurrency) continue;
+
+        changes.push({
+          roomId: room.id,
+          roomName: room.name,
+          itemId: item.id,
+          productId,
+          name: item.name,
+          quotedUnitPrice: item.unitPrice,
+          quotedCurrency: item.originalCurrency,
+          catalogUnitPrice,
+          catalogUnitCost: product.price,
+          catalogCurrency: product.currency,
+          priceOverridden: !!item.priceOverridden,
+        });
+      }
+    }
+
+    return { changes, missingProducts };
+  }
+
+  /**
+   * Replace stale items' unit price and currency with the product's current catalog values.
+   * Items whose product no longer exists keep their last known price, and manually priced items
+   * are only refreshed when listed in `itemIds`. Returns the applied changes.
+   */
+  private async refreshCatalogPrices(quote: Quote, itemIds?: string[]): Promise<QuotePriceChange[]> {
+    const { changes } = await this.findCatalogPriceChanges(quote);
+    const applied = itemIds ? changes.filter(c => itemIds.includes(c.itemId)) : changes.filter(c => !c.priceOverridden);
+
+    for (const change of applied) {
+      const item = quote.rooms.find(r => r.id === change.roomId)?.items.find(i => i.id === change.itemId);
+      if (!item) continue;
+
+      item.unitPrice = change.catalogUnitPrice;
+      item.unitCost = change.catalogUnitCost;
+      item.originalCurrency = change.catalogCurrency;
+      item.priceOverridden = undefined;
+    }
+
+    return applied;
+  }
+
+  private async getQuoteSettings(companyId: string): Promise<CompanyQuoteSettings> {
+    const company = await this.companyRepository.findById(companyId);
+    return companyQuoteSettingsSchema.parse(company?.quoteSettings ?? {});
+  }
+
+  /**
+   * Next quote number in the company's format. The number is fixed at creation, so changing the
+   * format only affects quotes created afterwards.
+   */
+  private async generateQuoteNumber(companyId: string, numbering: QuoteNumbering): Promise<string> {
+    const year = new Date().getFullYear();
+    const segments = [numbering.prefix, numbering.includeYear ? year.toString() : ""].filter(Boolean);
+    const numberPrefix = segments.map(s => `${s}-`).join("");
+
+    const key = numbering.resetYearly ? `quote_number:${year}` : "quote_number";
+    const sequence = await this.counterRepository.next(companyId, key, () =>
+      this.repository.findHighestNumberSequence(companyId, numberPrefix)
+    );
+
+    return `${numberPrefix}${sequence.toString().padStart(numbering.padding, "0")}`;
+  }
+
+  private async getValidityDays(companyId: string): Promise<number> {
+    return (await this.getQuoteSettings(companyId)).validityDays;
+  }
+
+  private assertAdmin(actor: QuoteActor, message: string): void {
+    if (!isAdmin(actor.role)) {
+      throw new AppError(403, message, "FORBIDDEN");
+    }
+  }
+
+  /**
+   * Report overdue quotes as expired without writing; the expiry job stores the status later.
+   */
+  private withExpiry(quote: Quote): Quote {
+    if (!quote.validUntil || !EXPIRABLE_QUOTE_STATUSES.includes(quote.status)) return quote;
+    if (timestampSchema.parse(quote.validUntil).toMillis() >= Date.now()) return quote;
+    return { ...quote, status: "expired" };
   }
 
   private ensureEditable(quote: Quote) {
-    if (quote.status === "approved" || quote.status === "denied") {
-      throw new AppError(400, "Approved or Denied quotes cannot be edited.", "READ_ONLY_ERROR");
+    if (READ_ONLY_STATUSES.includes(quote.status)) {
+      throw new AppError(400, `Quotes with status "${quote.status}" cannot be edited.`, "READ_ONLY_ERROR");
     }
   }
 }
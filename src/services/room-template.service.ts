@@ -0,0 +1,99 @@
+import { RoomTemplateRepository } from "@/repositories/room-template.repository";
+import {
+  roomTemplateSchema,
+  type RoomTemplate,
+  type CreateRoomTemplateInput,
+  type UpdateRoomTemplateInput,
+} from "@/types/quotes/room_template";
+import type { ItemMeasurements } from "@/types/quotes/quote";
+import { isAdmin, type UserRole } from "@/types/user/fi_user";
+import { AppError } from "@/middleware/error-handler";
+import { logger } from "@/utils/logger";
+import { calculateItemQuantity } from "@/utils/quote-pricing";
+import { Timestamp } from "firebase-admin/firestore";
+
+export class RoomTemplateService {
+  private repository: RoomTemplateRepository;
+
+  constructor() {
+    this.repository = new RoomTemplateRepository();
+  }
+
+  private assertAdmin(role: UserRole): void {
+    if (!isAdmin(role)) {
+      throw new AppError(403, "Only admin users can manage room templates", "FORBIDDEN");
+    }
+  }
+
+  /**
+   * Reject items that could never be inserted, e.g. per-metre items without a width.
+   */
+  private assertInsertable(items: (ItemMeasurements & { quantity?: number })[]): void {
+    for (const item of items) {
+      calculateItemQuantity(item, item.quantity);
+    }
+  }
+
+  async listTemplates(companyId: string): Promise<RoomTemplate[]> {
+    return await this.repository.findAll(companyId);
+  }
+
+  async getTemplate(companyId: string, id: string): Promise<RoomTemplate> {
+    const template = await this.repository.findById(companyId, id);
+
+    if (!template) {
+      throw new AppError(404, "Room template not found", "ROOM_TEMPLATE_NOT_FOUND");
+    }
+
+    return template;
+  }
+
+  async createTemplate(
+    companyId: string,
+    userId: string,
+    role: UserRole,
+    input: CreateRoomTemplateInput
+  ): Promise<RoomTemplate> {
+    this.assertAdmin(role);
+    this.assertInsertable([...input.catalogItems, ...input.customItems]);
+
+    const template = roomTemplateSchema.parse({ ...input, createdByUserId: userId, createdAt: Timestamp.now() });
+    return await this.repository.create(companyId, template);
+  }
+
+  async updateTemplate(
+    companyId: string,
+    role: UserRole,
+    id: string,
+    input: UpdateRoomTemplateInput
+  ): Promise<RoomTemplate> {
+    this.assertAdmin(role);
+    const existing = await this.getTemplate(companyId, id);
+
+    const catalogItems = input.catalogItems ?? existing.catalogItems;
+    const customItems = input.customItems ?? existing.customItems;
+    if (catalogItems.length + customItems.length === 0) {
+      throw new AppError(400, "Template must contain at least one item", "VALIDATION_ERROR");
+    }
+    this.assertInsertable([...catalogItems, ...customItems]);
+
+    const updated = await this.repository.update(companyId, id, { ...input, updatedAt: Timestamp.now() });
+
+    if (!updated) {
+      throw new AppError(500, "Failed to update room template", "UPDATE_FAILED");
+    }
+
+    return updated;
+  }
+
+  async deleteTemplate(companyId: string, role: UserRole, id: string): Promise<void> {
+    this.assertAdmin(role);
+
+    const deleted = await this.repository.delete(companyId, id);
+    if (!deleted) {
+      throw new AppError(404, "Room template not found", "ROOM_TEMPLATE_NOT_FOUND");
+    }
+
+    logger.info("Room template deleted", { templateId: id, companyId });
+  }
+}
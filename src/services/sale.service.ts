@@ -1,19 +1,54 @@
 import { SaleRepository } from "@/repositories/sale.repository";
-import { type Sale, type AddSale, addSaleSchema, type AddPaymentLog, addPaymentLogSchema, type UpdatePaymentLog, updatePaymentLogSchema } from "@/types/customer/sale/sale";
+import { CustomerRepository } from "@/repositories/customer.repository";
+import { CompanyRepository } from "@/repositories/company.repository";
+import { ExchangeRateService } from "@/services/exchange-rate.service";
+import {
+  type Sale,
+  type AddSale,
+  addSaleSchema,
+  type AddPaymentLog,
+  addPaymentLogSchema,
+  type UpdatePaymentLog,
+  updatePaymentLogSchema,
+  type Installment,
+  type InstallmentState,
+  type OverdueInstallment,
+  type SetInstallmentsInput,
+  type PaymentRecomputeResult,
+} from "@/types/customer/sale/sale";
 import type { PaymentLog } from "@/types/customer/sale/payment_log";
+import type { Currency } from "@/types/currency";
+import type { CustomerStatement, StatementQuery } from "@/types/customer/sale/statement";
+import type { ReceivablesAgingReport } from "@/types/customer/sale/aging";
+import type { SalesReport, SalesReportQuery } from "@/types/customer/sale/sales_report";
 import { AppError } from "@/middleware/error-handler";
 import { logger } from "@/utils/logger";
 import { Timestamp } from "firebase-admin/firestore";
 import type { UserRole } from "@/types/user/fi_user";
 import { ObjectId } from "mongodb";
 import { isAdmin } from "@/types/user/fi_user";
+import { buildInstallmentSchedule } from "@/utils/installments";
+import { calculateSaleTotals } from "@/utils/sale-payments";
+import { timestampSchema } from "@/types/timestamp";
+import { buildCustomerStatement } from "@/utils/customer-statement";
+import { renderStatementPdf } from "@/utils/statement-pdf";
+import { renderStatementXlsx } from "@/utils/statement-xlsx";
+import { buildAgingReport } from "@/utils/receivables-aging";
+import { renderAgingXlsx } from "@/utils/aging-xlsx";
+import { buildSalesReport, reportRanges, type ReportAggregates, type ReportRanges } from "@/utils/sales-report";
 
 
 export class SaleService {
   private repository: SaleRepository;
+  private customerRepository: CustomerRepository;
+  private companyRepository: CompanyRepository;
+  private exchangeRateService: ExchangeRateService;
 
   constructor() {
     this.repository = new SaleRepository();
+    this.customerRepository = new CustomerRepository();
+    this.companyRepository = new CompanyRepository();
+    this.exchangeRateService = new ExchangeRateService();
   }
 
   private assertAdmin(role: UserRole): void {
@@ -34,8 +69,7 @@ export class SaleService {
     const validatedInput = addSaleSchema.parse(input);
 
     // Calculate initial status
-    const totalPaidAmount = validatedInput.logs?.reduce((sum, log) => sum + log.amount, 0) || 0;
-    const status = totalPaidAmount >= validatedInput.totalAmount ? "completed" : "pending";
+    const { totalPaidAmount, status } = calculateSaleTotals(validatedInput.totalAmount, validatedInput.logs || []);
 
     // Omit _id - MongoDB will auto-generate ObjectId
     const sale: Omit<Sale, "_id"> = {
@@ -43,10 +77,11 @@ export class SaleService {
       createdByUserId: userId,
       createdByUserName: userName,
       totalAmount: validatedInput.totalAmount,
-      totalPaidAmount: Math.round(totalPaidAmount * 100) / 100,
+      totalPaidAmount,
       currency: validatedInput.currency,
       status,
       description: validatedInput.description,
+      quoteId: validatedInput.quoteId,
       createdAt: input.createdAt,
       logs: validatedInput.logs || [],
     };
@@ -81,13 +116,43 @@ export class SaleService {
       throw new AppError(404, "Sale not found", "SALE_NOT_FOUND");
     }
 
-    // If totalAmount changed, recalculate status
-    if (updates.totalAmount !== undefined) {
-      const newStatus = sale.totalPaidAmount >= updates.totalAmount ? "completed" : "pending";
-      (updates as any).status = newStatus;
+    if (
+      updates.totalAmount !== undefined &&
+      sale.installments?.length &&
+      !this.matchesTotal(sale.installments, updates.totalAmount)
+    ) {
+      throw new AppError(
+        400,
+        "Sale total must match its installment plan. Update or remove the plan first.",
+        "INSTALLMENT_TOTAL_MISMATCH"
+      );
     }
 
-    const updated = await this.repository.update(companyId, saleId, updates);
+    const changes: Partial<Sale> = { ...updates };
+
+    // Payments are converted into the sale currency, so a new currency means new conversions
+    if (updates.currency !== undefined && updates.currency !== sale.currency) {
+      const logs: PaymentLog[] = [];
+      for (const log of sale.logs) {
+        const converted = await this.convertPaymentLog(companyId, log, updates.currency, false);
+        if (!converted) {
+          throw new AppError(
+            400,
+            `No exchange rate from ${log.currency} to ${updates.currency} for an existing payment`,
+            "EXCHANGE_RATE_REQUIRED"
+          );
+        }
+        logs.push(converted);
+      }
+      changes.logs = logs;
+    }
+
+    // If totalAmount or payments changed, recalculate status
+    if (changes.totalAmount !== undefined || changes.logs !== undefined) {
+      Object.assign(changes, calculateSaleTotals(changes.totalAmount ?? sale.totalAmount, changes.logs ?? sale.logs));
+    }
+
+    const updated = await this.repository.update(companyId, saleId, changes);
 
     if (!updated) {
       throw new AppError(500, "Failed to update sale", "UPDATE_FAILED");
@@ -112,6 +177,293 @@ export class SaleService {
     logger.info("Sale deleted successfully", { saleId, companyId });
   }
 
+  // Account Statement
+
+  /**
+   * Chronological ledger of the customer's sales and payments with running balances per currency.
+   */
+  async getCustomerStatement(companyId: string, customerId: string, query: StatementQuery): Promise<CustomerStatement> {
+    const customer = await this.customerRepository.findById(companyId, customerId);
+    if (!customer) {
+      throw new AppError(404, "Customer not found", "CUSTOMER_NOT_FOUND");
+    }
+
+    const sales = await this.repository.findByCustomerId(companyId, customerId);
+
+    return buildCustomerStatement(
+      { id: customerId, name: `${customer.name} ${customer.surname}` },
+      sales.filter((sale) => sale.status !== "deleted"),
+      query
+    );
+  }
+
+  async exportCustomerStatementPdf(
+    companyId: string,
+    customerId: string,
+    query: StatementQuery
+  ): Promise<{ buffer: Uint8Array; filename: string }> {
+    const statement = await this.getCustomerStatement(companyId, customerId, query);
+    const companyName = await this.getCompanyName(companyId);
+
+    const buffer = await renderStatementPdf(statement, { companyName });
+
+    logger.info("Customer statement PDF exported", { customerId, companyId });
+    return { buffer, filename: `${statement.customerName} Ekstre.pdf` };
+  }
+
+  async exportCustomerStatementXlsx(
+    companyId: string,
+    customerId: string,
+    query: StatementQuery
+  ): Promise<{ buffer: Buffer; filename: string }> {
+    const statement = await this.getCustomerStatement(companyId, customerId, query);
+    const companyName = await this.getCompanyName(companyId);
+
+    const buffer = renderStatementXlsx(statement, { companyName });
+
+    logger.info("Customer statement XLSX exported", { customerId, companyId });
+    return { buffer, filename: `${statement.customerName} Ekstre.xlsx` };
+  }
+
+  // Receivables
+
+  /**
+   * Outstanding balances of pending sales per customer and currency, bucketed by sale age (admin only).
+   */
+  async getReceivablesAging(companyId: string, role: UserRole): Promise<ReceivablesAgingReport> {
+    this.assertAdmin(role);
+
+    const sales = await this.repository.findPendingBalances(companyId);
+    const customerNames = await this.getCustomerNames(companyId, sales.map((sale) => sale.customerId));
+
+    return buildAgingReport(sales, customerNames);
+  }
+
+  async exportReceivablesAgingXlsx(companyId: string, role: UserRole): Promise<{ buffer: Buffer; filename: string }> {
+    const report = await this.getReceivablesAging(companyId, role);
+    const companyName = await this.getCompanyName(companyId);
+
+    const buffer = renderAgingXlsx(report, { companyName });
+
+    const date = report.asOf.toDate().toISOString().slice(0, 10);
+    logger.info("Receivables aging exported", { companyId });
+    return { buffer, filename: `Alacak Yaşlandırma ${date}.xlsx` };
+  }
+
+  // Reports
+
+  /**
+   * Revenue and collections for the range grouped by period, user, payment type and currency,
+   * compared with the previous period of the same length (admin only).
+   */
+  async getSalesReport(companyId: string, role: UserRole, query: SalesReportQuery): Promise<SalesReport> {
+    this.assertAdmin(role);
+
+    const ranges = reportRanges(query);
+    const aggregate = async (range: ReportRanges["current"]): Promise<ReportAggregates> => {
+      const options = { ...range, groupBy: query.groupBy, timezone: query.timezone };
+      const [revenue, collections] = await Promise.all([
+        this.repository.aggregateRevenue(companyId, options),
+        this.repository.aggregateCollections(companyId, options),
+      ]);
+      return { revenue, collections };
+    };
+
+    const [current, previous] = await Promise.all([aggregate(ranges.current), aggregate(ranges.previous)]);
+    return buildSalesReport(query, ranges, current, previous);
+  }
+
+  // Installment Plan Operations
+
+  async getInstallmentSchedule(companyId: string, saleId: string): Promise<InstallmentState[]> {
+    const sale = await this.getSale(companyId, saleId);
+    return buildInstallmentSchedule(sale);
+  }
+
+  /**
+   * Replace the sale's installment plan. The installments must add up to the sale total;
+   * an empty list removes the plan.
+   */
+  async setInstallments(
+    companyId: string,
+    saleId: string,
+    role: UserRole,
+    input: SetInstallmentsInput
+  ): Promise<InstallmentState[]> {
+    this.assertAdmin(role);
+
+    const sale = await this.getSale(companyId, saleId);
+
+    const installments: Installment[] = input.installments.map((installment) => ({
+      id: new ObjectId().toHexString(),
+      amount: Math.round(installment.amount * 100) / 100,
+      dueDate: Timestamp.fromDate(installment.dueDate),
+      note: installment.note,
+    }));
+
+    if (installments.length > 0 && !this.matchesTotal(installments, sale.totalAmount)) {
+      throw new AppError(400, "Installments must add up to the sale total", "INSTALLMENT_TOTAL_MISMATCH", {
+        totalAmount: sale.totalAmount,
+        scheduledAmount: this.sumInstallments(installments),
+      });
+    }
+
+    const updated = await this.repository.update(companyId, saleId, { installments });
+    if (!updated) {
+      throw new AppError(500, "Failed to update installment plan", "UPDATE_FAILED");
+    }
+
+    logger.info("Installment plan updated", { saleId, companyId, count: installments.length });
+    return buildInstallmentSchedule(updated);
+  }
+
+  /**
+   * Unpaid installments past their due date across all pending sales, most overdue first.
+   */
+  async listOverdueInstallments(companyId: string): Promise<OverdueInstallment[]> {
+    const now = new Date();
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const sales = await this.repository.findWithInstallmentsDueBefore(companyId, Timestamp.fromDate(startOfToday));
+
+    const customerNames = await this.getCustomerNames(companyId, sales.map((sale) => sale.customerId));
+
+    const overdue: OverdueInstallment[] = [];
+    for (const sale of sales) {
+      for (const installment of buildInstallmentSchedule(sale, now)) {
+        if (installment.status !== "overdue") continue;
+        overdue.push({
+          ...installment,
+          saleId: sale._id!.toString(),
+          customerId: sale.customerId,
+          customerName: customerNames.get(sale.customerId),
+          currency: sale.currency,
+        });
+      }
+    }
+
+    return overdue.sort((a, b) => b.daysOverdue - a.daysOverdue);
+  }
+
+  /**
+   * Re-derive converted payment amounts, totals and status of all sales, e.g. for payments
+   * recorded before conversions existed. Rates already stored on payments are kept; missing ones
+   * are taken from the company rates in effect on the payment date.
+   */
+  async recomputePayments(companyId: string, role: UserRole): Promise<PaymentRecomputeResult> {
+    this.assertAdmin(role);
+
+    const sales = await this.repository.findAllActive(companyId);
+    const result: PaymentRecomputeResult = {
+      salesChecked: sales.length,
+      salesUpdated: 0,
+      salesSkipped: 0,
+      unconvertedPayments: [],
+    };
+    const updates: { id: ObjectId; updatedAt: Timestamp | undefined; set: Partial<Sale> }[] = [];
+
+    for (const sale of sales) {
+      const logs: PaymentLog[] = [];
+      for (const log of sale.logs) {
+        const converted = await this.convertPaymentLog(companyId, log, sale.currency, true);
+        if (!converted) {
+          result.unconvertedPayments.push({
+            saleId: sale._id!.toString(),
+            logId: log._id!.toString(),
+            currency: log.currency,
+          });
+        }
+        logs.push(converted ?? log);
+      }
+
+      const totals = calculateSaleTotals(sale.totalAmount, logs);
+      const changed =
+        totals.totalPaidAmount !== sale.totalPaidAmount ||
+        totals.status !== sale.status ||
+        logs.some((log, index) => log.convertedAmount !== sale.logs[index]!.convertedAmount);
+
+      if (changed) {
+        // Logs and totals are written together, and only if no payment changed in the meantime
+        updates.push({ id: sale._id!, updatedAt: sale.updatedAt, set: { logs, ...totals } });
+      }
+    }
+
+    result.salesUpdated = await this.repository.bulkUpdateIfUnchanged(companyId, updates);
+    result.salesSkipped = updates.length - result.salesUpdated;
+
+    logger.info("Sale payments recomputed", { companyId, ...result, unconvertedPayments: result.unconvertedPayments.length });
+    return result;
+  }
+
+  /**
+   * Rate to convert a payment into the sale currency: 1 for the same currency, otherwise the
+   * given rate or the company rate in effect at `at`.
+   */
+  private async resolveExchangeRate(
+    companyId: string,
+    from: Currency,
+    to: Currency,
+    given: number | undefined,
+    at: Timestamp
+  ): Promise<number> {
+    if (from === to) return 1;
+    if (given !== undefined) return given;
+
+    const rate = await this.exchangeRateService.getConversionRate(companyId, from, to, at);
+    if (rate === null) {
+      throw new AppError(400, `Exchange rate from ${from} to ${to} is required`, "EXCHANGE_RATE_REQUIRED");
+    }
+    return rate;
+  }
+
+  /**
+   * Copy of the log converted into `saleCurrency`, or null if no rate is available.
+   * With `keepRecordedRate`, a rate already stored on the log is reused.
+   */
+  private async convertPaymentLog(
+    companyId: string,
+    log: PaymentLog,
+    saleCurrency: Currency,
+    keepRecordedRate: boolean
+  ): Promise<PaymentLog | null> {
+    let exchangeRate: number | null;
+    if (log.currency === saleCurrency) {
+      exchangeRate = 1;
+    } else if (keepRecordedRate && log.exchangeRate !== undefined) {
+      exchangeRate = log.exchangeRate;
+    } else {
+      exchangeRate = await this.exchangeRateService.getConversionRate(
+        companyId,
+        log.currency,
+        saleCurrency,
+        timestampSchema.parse(log.createdAt)
+      );
+    }
+
+    if (exchangeRate === null) return null;
+    return { ...log, exchangeRate, convertedAmount: Math.round(log.amount * exchangeRate * 100) / 100 };
+  }
+
+  private async getCustomerNames(companyId: string, customerIds: string[]): Promise<Map<string, string>> {
+    const customers = await this.customerRepository.findByIds(companyId, [...new Set(customerIds)]);
+    return new Map(customers.map((customer) => [customer._id!.toString(), `${customer.name} ${customer.surname}`]));
+  }
+
+  private async getCompanyName(companyId: string): Promise<string> {
+    const company = await this.companyRepository.findById(companyId);
+    if (!company) {
+      throw new AppError(404, "Company not found", "COMPANY_NOT_FOUND");
+    }
+    return company.name;
+  }
+
+  private sumInstallments(installments: Installment[]): number {
+    return Math.round(installments.reduce((sum, installment) => sum + installment.amount, 0) * 100) / 100;
+  }
+
+  private matchesTotal(installments: Installment[], totalAmount: number): boolean {
+    return Math.abs(this.sumInstallments(installments) - totalAmount) < 0.01;
+  }
+
   // Payment Log Operations
 
   async addPaymentLog(
@@ -130,7 +482,14 @@ export class SaleService {
     }
 
     const validatedInput = addPaymentLogSchema.parse(input);
-    console.log('validatedInput', validatedInput);
+    const paidAt = validatedInput.createdAt || Timestamp.now();
+    const exchangeRate = await this.resolveExchangeRate(
+      companyId,
+      validatedInput.currency,
+      sale.currency,
+      validatedInput.exchangeRate,
+      paidAt
+    );
 
     // Generate _id manually for subdocument
     const paymentLog: PaymentLog = {
@@ -141,10 +500,12 @@ export class SaleService {
       createdByUserName: userName,
       amount: validatedInput.amount,
       currency: validatedInput.currency,
+      exchangeRate,
+      convertedAmount: Math.round(validatedInput.amount * exchangeRate * 100) / 100,
       paymentType: validatedInput.paymentType,
       description: validatedInput.description,
       paymentDate: Timestamp.now(),
-      createdAt: validatedInput.createdAt || Timestamp.now(),
+      createdAt: paidAt,
     };
 
     const updated = await this.repository.addPaymentLog(companyId, saleId, paymentLog);
@@ -162,7 +523,7 @@ export class SaleService {
     saleId: string,
     logId: string,
     role: UserRole,
-    input: Partial<Pick<PaymentLog, "amount" | "currency" | "paymentType" | "description" | "createdAt">>
+    input: Partial<Pick<PaymentLog, "amount" | "currency" | "exchangeRate" | "paymentType" | "description" | "createdAt">>
   ): Promise<Sale> {
     this.assertAdmin(role);
 
@@ -176,7 +537,28 @@ export class SaleService {
       throw new AppError(404, "Payment log not found", "PAYMENT_LOG_NOT_FOUND");
     }
 
-    const updated = await this.repository.updatePaymentLog(companyId, saleId, logId, input);
+    const updates: Partial<PaymentLog> = { ...input };
+    if (input.amount !== undefined || input.currency !== undefined || input.exchangeRate !== undefined) {
+      const amount = input.amount ?? log.amount;
+      const currency = input.currency ?? log.currency;
+
+      // Keep the rate recorded at payment time unless the currency or the rate itself changes
+      const exchangeRate =
+        currency === log.currency && input.exchangeRate === undefined && log.exchangeRate !== undefined
+          ? log.exchangeRate
+          : await this.resolveExchangeRate(
+              companyId,
+              currency,
+              sale.currency,
+              input.exchangeRate,
+              timestampSchema.parse(input.createdAt ?? log.createdAt)
+            );
+
+      updates.exchangeRate = exchangeRate;
+      updates.convertedAmount = Math.round(amount * exchangeRate * 100) / 100;
+    }
+
+    const updated = await this.repository.updatePaymentLog(companyId, saleId, logId, updates);
 
     if (!updated) {
       throw new AppError(500, "Failed to update payment log", "UPDATE_FAILED");
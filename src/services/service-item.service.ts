@@ -0,0 +1,78 @@
+import { ServiceItemRepository } from "@/repositories/service-item.repository";
+import {
+  serviceItemSchema,
+  type ServiceItem,
+  type CreateServiceItemInput,
+  type UpdateServiceItemInput,
+} from "@/types/quotes/service_item";
+import { isAdmin, type UserRole } from "@/types/user/fi_user";
+import { AppError } from "@/middleware/error-handler";
+import { logger } from "@/utils/logger";
+import { Timestamp } from "firebase-admin/firestore";
+
+export class ServiceItemService {
+  private repository: ServiceItemRepository;
+
+  constructor() {
+    this.repository = new ServiceItemRepository();
+  }
+
+  private assertAdmin(role: UserRole): void {
+    if (!isAdmin(role)) {
+      throw new AppError(403, "Only admin users can manage service items", "FORBIDDEN");
+    }
+  }
+
+  async listServiceItems(companyId: string, activeOnly: boolean = false): Promise<ServiceItem[]> {
+    return await this.repository.findAll(companyId, { activeOnly });
+  }
+
+  async getServiceItem(companyId: string, id: string): Promise<ServiceItem> {
+    const item = await this.repository.findById(companyId, id);
+
+    if (!item) {
+      throw new AppError(404, "Service item not found", "SERVICE_ITEM_NOT_FOUND");
+    }
+
+    return item;
+  }
+
+  async createServiceItem(companyId: string, role: UserRole, input: CreateServiceItemInput): Promise<ServiceItem> {
+    this.assertAdmin(role);
+
+    const item = serviceItemSchema.parse({ ...input, isActive: true, createdAt: Timestamp.now() });
+    return await this.repository.create(companyId, item);
+  }
+
+  async updateServiceItem(
+    companyId: string,
+    role: UserRole,
+    id: string,
+    input: UpdateServiceItemInput
+  ): Promise<ServiceItem> {
+    this.assertAdmin(role);
+    await this.getServiceItem(companyId, id);
+
+    const updated = await this.repository.update(companyId, id, { ...input, updatedAt: Timestamp.now() });
+
+    if (!updated) {
+      throw new AppError(500, "Failed to update service item", "UPDATE_FAILED");
+    }
+
+    return updated;
+  }
+
+  /**
+   * Quote items copy the service's name and price when added, so deleting it does not affect existing quotes.
+   */
+  async deleteServiceItem(companyId: string, role: UserRole, id: string): Promise<void> {
+    this.assertAdmin(role);
+
+    const deleted = await this.repository.delete(companyId, id);
+    if (!deleted) {
+      throw new AppError(404, "Service item not found", "SERVICE_ITEM_NOT_FOUND");
+    }
+
+    logger.info("Service item deleted", { serviceItemId: id, companyId });
+  }
+}
@@ -1,13 +1,54 @@
 import { z } from "zod";
 import { timestampSchema } from "@/types/timestamp";
+import { currencySchema } from "@/types/currency";
 import { ObjectId } from "mongodb";
 
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+const quoteNumberPrefixSchema = z.string().max(10).regex(/^[A-Za-z0-9]*$/, "Sadece harf ve rakam kullanılabilir.");
+const quoteNumberPaddingSchema = z.number().int().min(1).max(10);
+
+// Quote number format, e.g. prefix "FP", year and padding 4 → FP-2026-0042
+export const quoteNumberingSchema = z.object({
+  prefix: quoteNumberPrefixSchema.default("QT"),
+  includeYear: z.boolean().default(true),
+  padding: quoteNumberPaddingSchema.default(4),
+  resetYearly: z.boolean().default(true), // Restart the counter at 1 every calendar year
+});
+
+export type QuoteNumbering = z.infer<typeof quoteNumberingSchema>;
+
+// Company-wide defaults for quotes
+export const companyQuoteSettingsSchema = z.object({
+  validityDays: z.number().int().positive().max(365).default(DEFAULT_QUOTE_VALIDITY_DAYS),
+  // Per-currency totals up to which submitted quotes are approved automatically.
+  // Quotes in a currency without a threshold always need admin approval.
+  approvalThresholds: z.partialRecord(currencySchema, z.number().positive()).optional(),
+  numbering: quoteNumberingSchema.default(() => quoteNumberingSchema.parse({})),
+});
+
+export type CompanyQuoteSettings = z.infer<typeof companyQuoteSettingsSchema>;
+
+// No defaults here: omitted fields keep their current value
+export const updateCompanyQuoteSettingsSchema = z.object({
+  validityDays: z.number().int().positive().max(365).optional(),
+  approvalThresholds: z.partialRecord(currencySchema, z.number().positive()).optional(),
+  numbering: z.object({
+    prefix: quoteNumberPrefixSchema.optional(),
+    includeYear: z.boolean().optional(),
+    padding: quoteNumberPaddingSchema.optional(),
+    resetYearly: z.boolean().optional(),
+  }).optional(),
+});
+export type UpdateCompanyQuoteSettingsInput = z.infer<typeof updateCompanyQuoteSettingsSchema>;
+
 export const companySchema = z.object({
   _id: z.custom<ObjectId>(),
   name: z.string().min(2, "En az 2 karakter gereklidir."),
   registrationAgreement: z.boolean(),
   userIds: z.array(z.string()),
   creatorUserId: z.string(),
+  quoteSettings: companyQuoteSettingsSchema.optional(),
   createdAt: timestampSchema,
 });
 
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { currencySchema, type Currency } from "@/types/currency";
+import { timestampSchema } from "@/types/timestamp";
+import { Timestamp } from "firebase-admin/firestore";
+
+// Every rate is the TRY value of one unit of the currency
+export const EXCHANGE_RATE_BASE_CURRENCY: Currency = "TRY";
+
+// A dated set of exchange rates maintained by the company. Entries are never edited, so older
+// quotes can always be traced back to the rates they were priced with.
+export const exchangeRateSchema = z.object({
+  _id: z.custom<ObjectId>().optional(),
+  effectiveAt: timestampSchema, // Rates apply from this moment until a newer entry
+  rates: z.partialRecord(currencySchema, z.number().positive()),
+  source: z.string().default("manual"), // "manual" or the name of the provider it was imported from
+  note: z.string().max(500).optional(),
+  createdByUserId: z.string(),
+  createdAt: timestampSchema.default(() => Timestamp.now()),
+});
+
+export type ExchangeRate = z.infer<typeof exchangeRateSchema>;
+
+// Input schemas
+export const createExchangeRateSchema = z.object({
+  effectiveAt: z.coerce.date().optional(), // Defaults to now
+  rates: z
+    .partialRecord(currencySchema, z.number().positive())
+    .refine((rates) => Object.keys(rates).some((currency) => currency !== EXCHANGE_RATE_BASE_CURRENCY), {
+      message: "En az bir döviz kuru gereklidir.",
+    }),
+  note: z.string().max(500).optional(),
+});
+
+export const listExchangeRatesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CreateExchangeRateInput = z.infer<typeof createExchangeRateSchema>;
+export type ListExchangeRatesQuery = z.infer<typeof listExchangeRatesQuerySchema>;
+
+// Rates fetched from an external source
+export interface ProvidedExchangeRates {
+  effectiveAt: Date;
+  rates: Partial<Record<Currency, number>>; // TRY per unit, like stored entries
+}
+
+/**
+ * External rate feed (e.g. a central bank) that exchange rates can be imported from.
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(): Promise<ProvidedExchangeRates>;
+}
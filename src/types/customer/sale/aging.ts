@@ -0,0 +1,25 @@
+import type { Timestamp } from "firebase-admin/firestore";
+import type { Currency } from "@/types/currency";
+
+// Age of the outstanding balance in days since the sale date
+export const AGING_BUCKETS = ["0-30", "31-60", "61-90", "90+"] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+// Outstanding balance of one customer in one currency
+export interface CustomerAging {
+  customerId: string;
+  customerName?: string;
+  currency: Currency;
+  buckets: AgingBuckets;
+  total: number;
+  saleCount: number;
+  oldestSaleDate: Timestamp;
+}
+
+export interface ReceivablesAgingReport {
+  asOf: Timestamp;
+  customers: CustomerAging[]; // Largest balances first
+  totals: Partial<Record<Currency, { buckets: AgingBuckets; total: number }>>;
+}
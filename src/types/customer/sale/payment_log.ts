@@ -27,6 +27,8 @@ export const paymentLogSchema = z.object({
     .number<number>({ message: "Tutar zorunludur" })
     .positive("Tutar pozitif olmalıdır"),
   currency: currencySchema,
+  exchangeRate: z.number().positive().optional(), // Value of 1 unit of `currency` in the sale currency at payment time
+  convertedAmount: z.number().optional(), // amount * exchangeRate, counted towards the sale total
   paymentType: paymentTypeSchema,
   description: z.string().nullable().optional(),
   paymentDate: timestampSchema,
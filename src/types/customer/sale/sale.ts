@@ -1,11 +1,23 @@
 import { z } from "zod";
-import { currencySchema } from "@/types/currency";
+import { currencySchema, type Currency } from "@/types/currency";
 import { paymentLogSchema } from "@/types/customer/sale/payment_log";
 import { timestampSchema } from "@/types/timestamp";
 import { ObjectId } from "mongodb";
+import type { Timestamp } from "firebase-admin/firestore";
 
 export const saleStatusSchema = z.enum(["pending", "completed", "deleted"]);
 
+// Planned part-payment of a sale. Status is derived from the payment logs, see buildInstallmentSchedule.
+export const installmentSchema = z.object({
+  id: z.string(), // Unique ID within the sale
+  amount: z.number().positive().transform((val) => Math.round(val * 100) / 100),
+  dueDate: timestampSchema,
+  note: z.string().max(500).optional(),
+});
+
+// upcoming: not due within DUE_SOON_DAYS, due: due today or soon, overdue: due date has passed
+export const installmentStatusSchema = z.enum(["upcoming", "due", "overdue", "paid"]);
+
 export const saleSchema = z.object({
   _id: z.custom<ObjectId>().optional(),
   customerId: z
@@ -25,13 +37,33 @@ export const saleSchema = z.object({
   currency: currencySchema,
   status: saleStatusSchema,
   description: z.string().optional(),
+  quoteId: z.string().optional(), // Back-reference to the quote this sale was converted from
   createdAt: timestampSchema,
   updatedAt: timestampSchema.optional(),
   logs: z.array(paymentLogSchema),
+  installments: z.array(installmentSchema).optional(), // Payment plan; amounts add up to totalAmount
 });
 
 export type SaleStatus = z.infer<typeof saleStatusSchema>;
 export type Sale = z.infer<typeof saleSchema>;
+export type Installment = z.infer<typeof installmentSchema>;
+export type InstallmentStatus = z.infer<typeof installmentStatusSchema>;
+
+// Installment with its payment progress, matched against the sale's payment logs in due date order
+export interface InstallmentState extends Installment {
+  paidAmount: number;
+  remainingAmount: number;
+  status: InstallmentStatus;
+  paidAt?: Timestamp; // Date of the payment that settled the installment
+  daysOverdue: number;
+}
+
+export interface OverdueInstallment extends InstallmentState {
+  saleId: string;
+  customerId: string;
+  customerName?: string;
+  currency: Currency;
+}
 
 export const addSaleSchema = saleSchema.pick({
   customerId: true,
@@ -41,6 +73,7 @@ export const addSaleSchema = saleSchema.pick({
   currency: true,
   status: true,
   description: true,
+  quoteId: true,
   logs: true,
   createdAt: true,
 });
@@ -58,9 +91,31 @@ export type UpdateSale = z.infer<typeof updateSaleSchema>;
 
 export type DeleteSale = Pick<Sale, "_id">;
 
+export const setInstallmentsSchema = z.object({
+  installments: z
+    .array(
+      z.object({
+        amount: z.number().positive(),
+        dueDate: z.coerce.date(),
+        note: z.string().max(500).optional(),
+      })
+    )
+    .max(120), // Empty list removes the plan
+});
+export type SetInstallmentsInput = z.infer<typeof setInstallmentsSchema>;
+
+// Result of re-deriving converted payment amounts and totals for existing sales
+export interface PaymentRecomputeResult {
+  salesChecked: number;
+  salesUpdated: number;
+  salesSkipped: number; // Changed while the job ran; run it again to pick them up
+  unconvertedPayments: { saleId: string; logId: string; currency: Currency }[]; // No exchange rate available
+}
+
 export const addPaymentLogSchema = paymentLogSchema.pick({
   amount: true,
   currency: true,
+  exchangeRate: true,
   paymentType: true,
   description: true,
 }).extend({
@@ -72,6 +127,7 @@ export const updatePaymentLogSchema = paymentLogSchema.pick({
   _id: true,
   amount: true,
   currency: true,
+  exchangeRate: true,
   paymentType: true,
   description: true,
 }).extend({
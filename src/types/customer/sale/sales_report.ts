@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { Timestamp } from "firebase-admin/firestore";
+import type { Currency } from "@/types/currency";
+import type { PaymentType } from "@/types/customer/sale/payment_log";
+
+export const reportGranularitySchema = z.enum(["day", "week", "month"]);
+export type ReportGranularity = z.infer<typeof reportGranularitySchema>;
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const salesReportQuerySchema = z
+  .object({
+    from: z.iso.date(), // YYYY-MM-DD, a calendar day in `timezone`
+    to: z.iso.date(), // Inclusive
+    groupBy: reportGranularitySchema.default("month"),
+    timezone: z.string().refine(isTimeZone, "Geçersiz saat dilimi.").default("Europe/Istanbul"), // Used for day and period boundaries
+  })
+  .refine((query) => query.from <= query.to, {
+    message: "Başlangıç tarihi bitiş tarihinden sonra olamaz.",
+  });
+export type SalesReportQuery = z.infer<typeof salesReportQuerySchema>;
+
+// Revenue is counted on the sale date, collections on the payment date; both in the sale currency
+export interface SalesFigures {
+  revenue: number;
+  saleCount: number;
+  collections: number;
+  paymentCount: number;
+}
+
+export interface SalesReportPeriodSummary {
+  from: Timestamp;
+  to: Timestamp; // Exclusive
+  byCurrency: Partial<Record<Currency, SalesFigures>>;
+}
+
+// Percentage change against the previous period; null when the previous value was zero
+export interface SalesFiguresChange {
+  revenue: number | null;
+  collections: number | null;
+}
+
+export interface SalesReport {
+  groupBy: ReportGranularity;
+  timezone: string;
+  current: SalesReportPeriodSummary;
+  previous: SalesReportPeriodSummary; // Same length, immediately before `current`
+  change: Partial<Record<Currency, SalesFiguresChange>>;
+  byPeriod: ({ period: Timestamp; currency: Currency } & SalesFigures)[]; // period = start of day/week/month
+  byUser: ({ userId: string; userName?: string; currency: Currency } & SalesFigures)[];
+  byPaymentType: { paymentType: PaymentType; currency: Currency; amount: number; count: number }[];
+}
+
+// Raw aggregation output of SaleRepository, grouped by the keys in `_id`
+export interface SalesAggregateRow<K> {
+  _id: K & { currency: Currency };
+  amount: number;
+  count: number;
+  userName?: string;
+}
+
+export interface RevenueAggregate {
+  byPeriod: SalesAggregateRow<{ period: Date }>[];
+  byUser: SalesAggregateRow<{ userId: string }>[];
+  byCurrency: SalesAggregateRow<{}>[];
+}
+
+export interface CollectionsAggregate extends RevenueAggregate {
+  byPaymentType: SalesAggregateRow<{ paymentType: PaymentType }>[];
+}
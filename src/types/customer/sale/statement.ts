@@ -0,0 +1,45 @@
+import { z } from "zod";
+import type { Timestamp } from "firebase-admin/firestore";
+import type { Currency } from "@/types/currency";
+import type { PaymentType } from "@/types/customer/sale/payment_log";
+
+export const statementQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(), // Inclusive; a date without time covers the whole day
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "Başlangıç tarihi bitiş tarihinden sonra olamaz.",
+  });
+export type StatementQuery = z.infer<typeof statementQuerySchema>;
+
+// Per-currency amounts; a customer's sales can be in several currencies
+export type CurrencyAmounts = Partial<Record<Currency, number>>;
+
+// One ledger line: a sale (debit) or a payment received against it (credit), in the sale currency
+export interface StatementEntry {
+  date: Timestamp;
+  type: "sale" | "payment";
+  saleId: string;
+  paymentId?: string;
+  description?: string;
+  paymentType?: PaymentType;
+  currency: Currency;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance of `currency` after this entry
+  originalAmount?: number; // Payment amount as received, when paid in another currency
+  originalCurrency?: Currency;
+}
+
+export interface CustomerStatement {
+  customerId: string;
+  customerName: string;
+  from?: Timestamp;
+  to?: Timestamp;
+  openingBalances: CurrencyAmounts; // Balances carried over from before `from`
+  entries: StatementEntry[];
+  totals: Partial<Record<Currency, { debit: number; credit: number }>>; // Within the period
+  closingBalances: CurrencyAmounts;
+  generatedAt: Timestamp;
+}
@@ -1,32 +1,147 @@
 import { z } from "zod";
-import { currencySchema } from "@/types/currency";
+import { currencySchema, type Currency } from "@/types/currency";
 import { timestampSchema } from "@/types/timestamp";
 import { ObjectId } from "mongodb";
 import { Timestamp } from "firebase-admin/firestore";
+import type { UserRole } from "@/types/user/fi_user";
+import { customerResponseSchema } from "@/types/quotes/quote_share_link";
 
-export const quoteStatusSchema = z.enum(["draft", "sent_for_approval", "approved", "denied"]);
+export const quoteStatusSchema = z.enum([
+  "draft",
+  "sent_for_approval",
+  "approved",
+  "denied",
+  "converted",
+  "expired",
+  "cancelled",
+  "archived",
+]);
 export type QuoteStatus = z.infer<typeof quoteStatusSchema>;
 
+// Statuses that move to "expired" once validUntil has passed
+export const EXPIRABLE_QUOTE_STATUSES: QuoteStatus[] = ["draft", "sent_for_approval"];
+
+// Statuses a quote can be cancelled from; converted quotes already have a sale
+export const CANCELLABLE_QUOTE_STATUSES: QuoteStatus[] = ["draft", "sent_for_approval", "approved"];
+
+export const pricingUnitSchema = z.enum(["per_metre", "per_m2", "per_piece"]);
+export type PricingUnit = z.infer<typeof pricingUnitSchema>;
+
+// Window measurements used to derive quantity for dimension-priced items
+const itemMeasurementsSchema = z.object({
+  width: z.number().positive().optional(), // cm
+  height: z.number().positive().optional(), // cm
+  fullness: z.number().min(1).optional(), // Pleat factor, e.g. 2.5 for a pleated curtain
+  pricingUnit: pricingUnitSchema.optional(),
+});
+export type ItemMeasurements = z.infer<typeof itemMeasurementsSchema>;
+
+export const discountTypeSchema = z.enum(["percentage", "fixed"]);
+
+// A percentage (0-100) or a fixed amount in the quote's base currency
+export const discountSchema = z.object({
+  type: discountTypeSchema,
+  value: z.number().min(0),
+}).refine((d) => d.type !== "percentage" || d.value <= 100, {
+  message: "Percentage discount cannot exceed 100",
+  path: ["value"],
+});
+export type Discount = z.infer<typeof discountSchema>;
+
+export const DEFAULT_VAT_RATE = 20; // KDV %
+
+export const approvalActionSchema = z.enum(["submitted", "approved", "auto_approved", "denied"]);
+export type ApprovalAction = z.infer<typeof approvalActionSchema>;
+
+// One step of the approval workflow: who did what, when and why
+export const approvalEventSchema = z.object({
+  action: approvalActionSchema,
+  userId: z.string(),
+  userName: z.string().optional(),
+  reason: z.string().optional(), // Required for denials
+  comment: z.string().optional(),
+  at: timestampSchema,
+});
+export type ApprovalEvent = z.infer<typeof approvalEventSchema>;
+
+export const quoteCommentSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  userName: z.string().optional(),
+  message: z.string(),
+  createdAt: timestampSchema,
+});
+export type QuoteComment = z.infer<typeof quoteCommentSchema>;
+
+// Who cancelled or archived a quote and why
+export const quoteClosureSchema = z.object({
+  reason: z.string(),
+  previousStatus: quoteStatusSchema, // Restored when an archived quote is unarchived
+  userId: z.string(),
+  userName: z.string().optional(),
+  at: timestampSchema,
+});
+export type QuoteClosure = z.infer<typeof quoteClosureSchema>;
+
+// product: global catalog item, service: from the company's service item list, custom: one-off free-form line
+export const quoteItemKindSchema = z.enum(["product", "service", "custom"]);
+export type QuoteItemKind = z.infer<typeof quoteItemKindSchema>;
+
 export const quoteItemSchema = z.object({
   id: z.string(), // Local ID within the quote/room
-  productId: z.custom<ObjectId>(),
+  kind: quoteItemKindSchema.default("product"),
+  productId: z.custom<ObjectId>().optional(), // Set for catalog items
+  serviceItemId: z.custom<ObjectId>().optional(), // Set for items added from the service list
   name: z.string(),
+  unit: z.string().optional(), // Display unit for non-catalog items, e.g. "adet", "saat"
   quantity: z.number().positive(),
   unitPrice: z.number(), // Original price in originalCurrency
+  unitCost: z.number().optional(), // Catalog cost in originalCurrency, before the vendor price rate markup
+  priceOverridden: z.boolean().optional(), // unitPrice was entered by hand; catalog refreshes skip it unless picked
   originalCurrency: currencySchema,
   convertedUnitPrice: z.number(), // Price in quote base currency (using conversion rate)
   totalPrice: z.number(), // quantity * convertedUnitPrice
-});
+  discount: discountSchema.optional(),
+  discountAmount: z.number().default(0), // Line discount in base currency
+}).extend(itemMeasurementsSchema.shape);
 export type QuoteItem = z.infer<typeof quoteItemSchema>;
 
+// Customer photo linked to a room, with just enough metadata to list it without loading the image
+export const quoteRoomImageSchema = z.object({
+  imageId: z.string(), // customer_images ID, served by the customer image routes
+  title: z.string(),
+  filename: z.string(),
+  mimeType: z.string(),
+  uploadedAt: timestampSchema,
+});
+export type QuoteRoomImage = z.infer<typeof quoteRoomImageSchema>;
+
 export const quoteRoomSchema = z.object({
   id: z.string(), // Unique ID within the quote
   name: z.string(),
   items: z.array(quoteItemSchema).default([]),
-  total: z.number().default(0),
+  images: z.array(quoteRoomImageSchema).default([]), // Measurement photos of the window(s) this room refers to
+  discount: discountSchema.optional(),
+  subtotal: z.number().default(0), // Sum of item totals after line discounts
+  discountAmount: z.number().default(0), // Room-level discount in base currency
+  total: z.number().default(0), // subtotal - discountAmount
 });
 export type QuoteRoom = z.infer<typeof quoteRoomSchema>;
 
+// An alternative version of the quote's content (e.g. premium vs budget fabric) with its own totals.
+// The active option is the one loaded into `quote.rooms` for editing; it is kept in sync on every save.
+export const quoteOptionSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(60),
+  rooms: z.array(quoteRoomSchema).default([]),
+  discount: discountSchema.optional(),
+  subtotal: z.number().default(0),
+  discountTotal: z.number().default(0),
+  taxTotal: z.number().default(0),
+  total: z.number().default(0),
+});
+export type QuoteOption = z.infer<typeof quoteOptionSchema>;
+
 export const quoteSchema = z.object({
   _id: z.custom<ObjectId>().optional(),
   companyId: z.string(),
@@ -36,20 +151,87 @@ export const quoteSchema = z.object({
   creatorId: z.string(),
   creatorName: z.string().optional(),
   currency: currencySchema,
-  conversions: z.record(currencySchema, z.number()).default({
+  // Price of one unit of each currency in `currency`; a currency without a rate is left out
+  conversions: z.partialRecord(currencySchema, z.number()).default({
     EUR: 1.00,
     USD: 1.00,
     TRY: 1.00,
   }),
+  exchangeRateId: z.string().optional(), // Company exchange rate entry the conversions came from; cleared when edited by hand
   rooms: z.array(quoteRoomSchema).default([]),
+  options: z.array(quoteOptionSchema).default([]), // Empty for quotes without alternatives
+  activeOptionId: z.string().optional(), // Option currently loaded into rooms
+  selectedOptionId: z.string().optional(), // Option chosen by the customer or approver
+  duplicatedFromQuoteId: z.string().optional(), // Source quote when created via duplicate
   status: quoteStatusSchema.default("draft"),
-  total: z.number().default(0),
-  createdAt: timestampSchema.default(Timestamp.now()),
+  discount: discountSchema.optional(), // Quote-level discount, applied after room totals
+  vatRate: z.number().min(0).max(100).default(DEFAULT_VAT_RATE),
+  subtotal: z.number().default(0), // Sum of item totals before any discount
+  discountTotal: z.number().default(0), // Item + room + quote discounts
+  taxTotal: z.number().default(0),
+  total: z.number().default(0), // Grand total: subtotal - discountTotal + taxTotal
+  saleId: z.string().optional(), // Set once the approved quote is converted into a sale
+  validUntil: timestampSchema.optional(),
+  customerResponse: customerResponseSchema.optional(), // Accept/reject given through a public share link
+  approvalLog: z.array(approvalEventSchema).default([]),
+  cancellation: quoteClosureSchema.optional(),
+  archival: quoteClosureSchema.optional(),
+  version: z.number().int().min(0).default(0), // Incremented on every write, used for optimistic concurrency
+  comments: z.array(quoteCommentSchema).default([]), // Discussion while the quote is sent for approval
+  createdAt: timestampSchema.default(() => Timestamp.now()),
   updatedAt: timestampSchema.optional(),
 });
 
 export type Quote = z.infer<typeof quoteSchema>;
 
+// The user performing a quote operation, recorded on revisions and audit fields
+export interface QuoteActor {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+// A catalog item whose quoted price no longer matches the product catalog
+export interface QuotePriceChange {
+  roomId: string;
+  roomName: string;
+  itemId: string;
+  productId: string;
+  name: string;
+  quotedUnitPrice: number;
+  quotedCurrency: Currency;
+  catalogUnitPrice: number; // Marked-up catalog price (priceWithRate)
+  catalogUnitCost: number;
+  catalogCurrency: Currency;
+  priceOverridden: boolean; // Manual price; only refreshed when the item is picked explicitly
+}
+
+export interface QuotePriceCheck {
+  quoteId: string;
+  stale: boolean;
+  changes: QuotePriceChange[];
+  // Items whose product has been removed from the catalog; these keep their quoted price
+  missingProducts: { roomId: string; itemId: string; productId: string; name: string }[];
+}
+
+// Revenue (after discounts, before VAT) against catalog cost, in the quote's base currency
+export interface MarginSummary {
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number | null; // margin / revenue, null when there is no revenue
+}
+
+export interface QuoteMarginReport extends MarginSummary {
+  quoteId: string;
+  currency: Currency;
+  rooms: (MarginSummary & {
+    roomId: string;
+    roomName: string;
+    items: (MarginSummary & { itemId: string; name: string })[];
+  })[];
+}
+
 // Input schemas
 export const createQuoteSchema = z.object({
   currency: currencySchema,
@@ -64,7 +246,7 @@ export const updateQuoteCustomerSchema = z.object({
   }).optional(),
 });
 
-export const updateQuoteConversionsSchema = z.record(currencySchema, z.number()).default({
+export const updateQuoteConversionsSchema = z.partialRecord(currencySchema, z.number()).default({
   EUR: 1.00,
   USD: 1.00,
   TRY: 1.00,
@@ -77,24 +259,138 @@ export const addRoomSchema = z.object({
 export const addItemsToRoomSchema = z.object({
   items: z.array(z.object({
     productId: z.string(),
-    quantity: z.number().positive(),
+    quantity: z.number().positive().optional(), // Ignored for per_metre / per_m2 items, derived from measurements
     customPrice: z.number().optional(), // If provided, overrides catalog price
-  })),
+    discount: discountSchema.optional(),
+  }).extend(itemMeasurementsSchema.shape)),
+});
+
+export const addCustomItemsToRoomSchema = z.object({
+  items: z.array(z.object({
+    serviceItemId: z.string().optional(), // Copies name, unit, price and currency from the company's service list
+    name: z.string().min(1).optional(),
+    unit: z.string().min(1).max(20).optional(),
+    unitPrice: z.number().min(0).optional(),
+    unitCost: z.number().min(0).optional(),
+    currency: currencySchema.optional(),
+    quantity: z.number().positive().optional(),
+    discount: discountSchema.optional(),
+  }).extend(itemMeasurementsSchema.shape).refine(
+    (item) => item.serviceItemId || (item.name && item.unitPrice !== undefined && item.currency),
+    { message: "name, unitPrice and currency are required for custom items" }
+  )).min(1),
 });
 
 export const updateQuoteItemSchema = z.object({
+  name: z.string().min(1).optional(), // Non-catalog items only
+  unit: z.string().min(1).max(20).optional(), // Non-catalog items only
   quantity: z.number().positive().optional(),
   customPrice: z.number().optional(),
+  discount: discountSchema.nullable().optional(), // null removes the discount
+}).extend(itemMeasurementsSchema.shape);
+
+export const updateRoomDiscountSchema = z.object({
+  discount: discountSchema.nullable(),
+});
+
+export const updateQuotePricingSchema = z.object({
+  discount: discountSchema.nullable().optional(),
+  vatRate: z.number().min(0).max(100).optional(),
 });
 
 export const updateRoomNameSchema = z.object({
   name: z.string().min(1),
 });
 
+export const setRoomImagesSchema = z.object({
+  imageIds: z.array(z.string()).max(20), // Replaces the room's current images; must belong to the quote's customer
+});
+
+export const approveQuoteSchema = z.object({
+  comment: z.string().max(1000).optional(),
+  optionId: z.string().optional(), // Defaults to the selected option
+});
+
+// Reason for cancelling or archiving a quote
+export const closeQuoteSchema = z.object({
+  reason: z.string().trim().min(3, "Sebep zorunludur").max(1000),
+});
+
+export const duplicateQuoteSchema = z.object({
+  customerId: z.string().optional(), // Defaults to the original quote's customer
+});
+
+export const addQuoteOptionSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  copyFromActive: z.boolean().default(true), // Start from a copy of the current rooms instead of empty
+});
+
+export const renameQuoteOptionSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+
+export const denyQuoteSchema = z.object({
+  reason: z.string().trim().min(3, "Red sebebi zorunludur").max(1000),
+});
+
+export const addQuoteCommentSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+});
+
+export const extendQuoteSchema = z.object({
+  validityDays: z.number().int().positive().max(365).optional(), // Defaults to the company setting
+  refreshPrices: z.boolean().optional(), // Defaults to true when re-issuing an expired quote
+});
+
+export const refreshQuotePricesSchema = z.object({
+  itemIds: z.array(z.string()).min(1).optional(), // Omit to refresh every stale item without a manual price
+});
+
+export const convertQuoteToSaleSchema = z.object({
+  description: z.string().optional(),
+});
+
+// Query schema for listing quotes
+export const listQuotesQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  // Comma separated, e.g. "draft,sent_for_approval"
+  status: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.split(",").map((s) => s.trim()) : undefined))
+    .pipe(z.array(quoteStatusSchema).optional()),
+  customerId: z.string().regex(/^[0-9a-f]{24}$/i, "Geçersiz müşteri ID'si").optional(),
+  creatorId: z.string().optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  minTotal: z.coerce.number().min(0).optional(),
+  maxTotal: z.coerce.number().min(0).optional(),
+  search: z.string().trim().min(1).optional(), // Quote number or customer name, also matches archived quotes
+  includeArchived: z.enum(["true", "false"]).transform((val) => val === "true").optional(),
+  sortBy: z.enum(["createdAt", "updatedAt", "total", "quoteNumber", "customerName", "validUntil"]).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type ListQuotesQuery = z.infer<typeof listQuotesQuerySchema>;
+
 export type CreateQuoteInput = z.infer<typeof createQuoteSchema>;
 export type UpdateQuoteCustomerInput = z.infer<typeof updateQuoteCustomerSchema>;
 export type UpdateQuoteConversionsInput = z.infer<typeof updateQuoteConversionsSchema>;
 export type AddRoomInput = z.infer<typeof addRoomSchema>;
 export type AddItemsToRoomInput = z.infer<typeof addItemsToRoomSchema>;
+export type AddCustomItemsToRoomInput = z.infer<typeof addCustomItemsToRoomSchema>;
 export type UpdateQuoteItemInput = z.infer<typeof updateQuoteItemSchema>;
 export type UpdateRoomNameInput = z.infer<typeof updateRoomNameSchema>;
+export type SetRoomImagesInput = z.infer<typeof setRoomImagesSchema>;
+export type UpdateRoomDiscountInput = z.infer<typeof updateRoomDiscountSchema>;
+export type UpdateQuotePricingInput = z.infer<typeof updateQuotePricingSchema>;
+export type ApproveQuoteInput = z.infer<typeof approveQuoteSchema>;
+export type CloseQuoteInput = z.infer<typeof closeQuoteSchema>;
+export type DuplicateQuoteInput = z.infer<typeof duplicateQuoteSchema>;
+export type AddQuoteOptionInput = z.infer<typeof addQuoteOptionSchema>;
+export type DenyQuoteInput = z.infer<typeof denyQuoteSchema>;
+export type AddQuoteCommentInput = z.infer<typeof addQuoteCommentSchema>;
+export type ExtendQuoteInput = z.infer<typeof extendQuoteSchema>;
+export type RefreshQuotePricesInput = z.infer<typeof refreshQuotePricesSchema>;
+export type ConvertQuoteToSaleInput = z.infer<typeof convertQuoteToSaleSchema>;
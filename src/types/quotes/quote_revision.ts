@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { currencySchema } from "@/types/currency";
+import { timestampSchema } from "@/types/timestamp";
+import {
+  discountSchema,
+  quoteOptionSchema,
+  quoteRoomSchema,
+  quoteStatusSchema,
+  type QuoteItem,
+} from "@/types/quotes/quote";
+import { ObjectId } from "mongodb";
+
+/**
+ * Immutable snapshot of a quote's content, taken after every mutating QuoteService call.
+ */
+export const quoteRevisionSchema = z.object({
+  _id: z.custom<ObjectId>().optional(),
+  quoteId: z.string(),
+  revision: z.number().int().positive(),
+  action: z.string(), // Which QuoteService operation produced this revision, e.g. "add_items"
+  restoredFromRevision: z.number().int().positive().optional(),
+  customerId: z.custom<ObjectId>().optional(),
+  customerName: z.string().optional(),
+  currency: currencySchema,
+  conversions: z.partialRecord(currencySchema, z.number()),
+  exchangeRateId: z.string().nullable().optional(),
+  rooms: z.array(quoteRoomSchema),
+  discount: discountSchema.nullable().optional(),
+  vatRate: z.number().optional(),
+  options: z.array(quoteOptionSchema).optional(), // Missing on revisions recorded before options were snapshotted
+  activeOptionId: z.string().nullable().optional(),
+  selectedOptionId: z.string().nullable().optional(),
+  status: quoteStatusSchema,
+  total: z.number(),
+  createdByUserId: z.string(),
+  createdByUserName: z.string().optional(),
+  createdAt: timestampSchema,
+});
+
+export type QuoteRevision = z.infer<typeof quoteRevisionSchema>;
+
+// Listing view without the (potentially large) rooms and options payload
+export type QuoteRevisionSummary = Omit<QuoteRevision, "rooms" | "options" | "conversions">;
+
+export const quoteRevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+export type FieldChange = { from: unknown; to: unknown };
+
+export interface QuoteItemChange {
+  roomId: string;
+  roomName: string;
+  itemId: string;
+  name: string;
+  changes: Record<string, FieldChange>;
+}
+
+export interface QuoteRevisionDiff {
+  from: number;
+  to: number;
+  rooms: {
+    added: { id: string; name: string }[];
+    removed: { id: string; name: string }[];
+    renamed: { id: string; from: string; to: string }[];
+  };
+  items: {
+    added: { roomId: string; roomName: string; item: QuoteItem }[];
+    removed: { roomId: string; roomName: string; item: QuoteItem }[];
+    changed: QuoteItemChange[];
+  };
+  currency?: FieldChange;
+  activeOption?: FieldChange;
+  selectedOption?: FieldChange;
+  total: FieldChange;
+}
+
+// Item fields compared when diffing two revisions
+export const DIFFED_ITEM_FIELDS = [
+  "name",
+  "quantity",
+  "unitPrice",
+  "originalCurrency",
+  "convertedUnitPrice",
+  "totalPrice",
+  "discountAmount",
+  "width",
+  "height",
+  "fullness",
+  "pricingUnit",
+] as const satisfies readonly (keyof QuoteItem)[];
+
+export type QuoteRevisionDiffQuery = z.infer<typeof quoteRevisionDiffQuerySchema>;
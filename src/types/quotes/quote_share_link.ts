@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { timestampSchema } from "@/types/timestamp";
+import { ObjectId } from "mongodb";
+
+export const DEFAULT_SHARE_LINK_DAYS = 14;
+
+/**
+ * Tokenised public link to a quote. Stored in the core database because the
+ * public route only knows the token, not the company.
+ */
+export const quoteShareLinkSchema = z.object({
+  _id: z.custom<ObjectId>().optional(),
+  token: z.string(),
+  companyId: z.string(),
+  quoteId: z.string(),
+  createdByUserId: z.string(),
+  createdByUserName: z.string().optional(),
+  createdAt: timestampSchema,
+  expiresAt: timestampSchema,
+  revokedAt: timestampSchema.optional(),
+  revokedByUserId: z.string().optional(),
+});
+
+export type QuoteShareLink = z.infer<typeof quoteShareLinkSchema>;
+
+export const customerDecisionSchema = z.enum(["accepted", "rejected"]);
+export type CustomerDecision = z.infer<typeof customerDecisionSchema>;
+
+// The customer's answer given through a share link, recorded on the quote
+export const customerResponseSchema = z.object({
+  decision: customerDecisionSchema,
+  note: z.string().max(1000).optional(),
+  optionId: z.string().optional(), // Option accepted, for quotes with alternatives
+  shareLinkId: z.string(),
+  respondedAt: timestampSchema,
+});
+
+export type CustomerResponse = z.infer<typeof customerResponseSchema>;
+
+// Input schemas
+export const createShareLinkSchema = z.object({
+  expiresInDays: z.number().int().positive().max(90).default(DEFAULT_SHARE_LINK_DAYS),
+});
+
+export const respondToQuoteSchema = z.object({
+  decision: customerDecisionSchema,
+  note: z.string().max(1000).optional(),
+  optionId: z.string().optional(), // Required when accepting a quote with several options
+});
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+export type RespondToQuoteInput = z.infer<typeof respondToQuoteSchema>;
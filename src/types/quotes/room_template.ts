@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { timestampSchema } from "@/types/timestamp";
+import { Timestamp } from "firebase-admin/firestore";
+import { addCustomItemsToRoomSchema, addItemsToRoomSchema } from "@/types/quotes/quote";
+
+// Company-defined room with typical items (e.g. "Standard living room") that can be inserted into quotes.
+// Items are stored as add-item inputs and priced when the template is inserted.
+export const roomTemplateSchema = z.object({
+  _id: z.custom<ObjectId>().optional(),
+  name: z.string().min(1, "En az 1 karakter gereklidir.").max(100),
+  description: z.string().max(500).optional(),
+  catalogItems: addItemsToRoomSchema.shape.items.default([]),
+  customItems: z.array(addCustomItemsToRoomSchema.shape.items.element).default([]),
+  createdByUserId: z.string(),
+  createdAt: timestampSchema.default(() => Timestamp.now()),
+  updatedAt: timestampSchema.optional(),
+});
+
+export type RoomTemplate = z.infer<typeof roomTemplateSchema>;
+
+// Input schemas
+export const createRoomTemplateSchema = roomTemplateSchema
+  .pick({ name: true, description: true, catalogItems: true, customItems: true })
+  .refine((t) => t.catalogItems.length + t.customItems.length > 0, {
+    message: "Template must contain at least one item",
+  });
+
+export const updateRoomTemplateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  catalogItems: addItemsToRoomSchema.shape.items.optional(),
+  customItems: z.array(addCustomItemsToRoomSchema.shape.items.element).optional(),
+});
+
+export const addRoomFromTemplateSchema = z.object({
+  templateId: z.string(),
+  name: z.string().min(1).optional(), // Defaults to the template name
+});
+
+export type CreateRoomTemplateInput = z.infer<typeof createRoomTemplateSchema>;
+export type UpdateRoomTemplateInput = z.infer<typeof updateRoomTemplateSchema>;
+export type AddRoomFromTemplateInput = z.infer<typeof addRoomFromTemplateSchema>;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { currencySchema } from "@/types/currency";
+import { timestampSchema } from "@/types/timestamp";
+import { Timestamp } from "firebase-admin/firestore";
+
+// Reusable, company-defined quote line such as installation, rail mounting, sewing labour or transport
+export const serviceItemSchema = z.object({
+  _id: z.custom<ObjectId>().optional(),
+  name: z.string().min(1, "En az 1 karakter gereklidir.").max(100),
+  unit: z.string().min(1).max(20), // e.g. "adet", "saat", "m"
+  unitPrice: z.number().min(0),
+  unitCost: z.number().min(0).optional(), // Internal cost, used for margin reporting
+  currency: currencySchema,
+  description: z.string().max(500).optional(),
+  isActive: z.boolean().default(true), // Inactive items are kept for reference but cannot be added to quotes
+  createdAt: timestampSchema.default(() => Timestamp.now()),
+  updatedAt: timestampSchema.optional(),
+});
+
+export type ServiceItem = z.infer<typeof serviceItemSchema>;
+
+// Input schemas
+export const createServiceItemSchema = serviceItemSchema.pick({
+  name: true,
+  unit: true,
+  unitPrice: true,
+  unitCost: true,
+  currency: true,
+  description: true,
+});
+
+export const updateServiceItemSchema = createServiceItemSchema
+  .extend({ isActive: z.boolean() })
+  .partial();
+
+export type CreateServiceItemInput = z.infer<typeof createServiceItemSchema>;
+export type UpdateServiceItemInput = z.infer<typeof updateServiceItemSchema>;
@@ -0,0 +1,50 @@
+import * as XLSX from "xlsx";
+import { AGING_BUCKETS, type ReceivablesAgingReport } from "@/types/customer/sale/aging";
+import { timestampSchema } from "@/types/timestamp";
+
+export interface AgingXlsxContext {
+  companyName: string;
+}
+
+const HEADER = ["Müşteri", "Para Birimi", ...AGING_BUCKETS.map((bucket) => `${bucket} Gün`), "Toplam", "Satış Sayısı", "En Eski Satış"];
+
+function formatDate(value: unknown): string {
+  return timestampSchema.parse(value).toDate().toLocaleDateString("tr-TR");
+}
+
+/**
+ * Build a workbook with one row per customer and currency, followed by per-currency totals.
+ */
+export function renderAgingXlsx(report: ReceivablesAgingReport, context: AgingXlsxContext): Buffer {
+  const rows: (string | number | null)[][] = [
+    [context.companyName],
+    ["Alacak Yaşlandırma Raporu"],
+    ["Tarih", formatDate(report.asOf)],
+    [],
+    HEADER,
+  ];
+
+  for (const customer of report.customers) {
+    rows.push([
+      customer.customerName ?? customer.customerId,
+      customer.currency,
+      ...AGING_BUCKETS.map((bucket) => customer.buckets[bucket]),
+      customer.total,
+      customer.saleCount,
+      formatDate(customer.oldestSaleDate),
+    ]);
+  }
+  rows.push([]);
+
+  for (const [currency, total] of Object.entries(report.totals)) {
+    if (!total) continue;
+    rows.push(["TOPLAM", currency, ...AGING_BUCKETS.map((bucket) => total.buckets[bucket]), total.total]);
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = HEADER.map((header, index) => ({ wch: index === 0 ? 32 : Math.max(12, header.length + 2) }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Yaşlandırma");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
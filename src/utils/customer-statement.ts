@@ -0,0 +1,121 @@
+import { Timestamp } from "firebase-admin/firestore";
+import type { Sale } from "@/types/customer/sale/sale";
+import type { PaymentType } from "@/types/customer/sale/payment_log";
+import type {
+  CurrencyAmounts,
+  CustomerStatement,
+  StatementEntry,
+  StatementQuery,
+} from "@/types/customer/sale/statement";
+import { timestampSchema } from "@/types/timestamp";
+import { convertedPaymentAmount } from "@/utils/sale-payments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  cash: "Nakit",
+  bank_transfer: "Havale/EFT",
+  credit_card: "Kredi Kartı",
+  check: "Çek",
+  other: "Diğer",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * End of the statement period (exclusive). A bare date such as "2026-03-31" covers that whole day.
+ */
+function periodEnd(to: Date): number {
+  const isDateOnly =
+    to.getUTCHours() === 0 && to.getUTCMinutes() === 0 && to.getUTCSeconds() === 0 && to.getUTCMilliseconds() === 0;
+  return to.getTime() + (isDateOnly ? DAY_MS : 1);
+}
+
+type LedgerLine = Omit<StatementEntry, "balance">;
+
+function ledgerLines(sales: Sale[]): LedgerLine[] {
+  const lines: LedgerLine[] = [];
+
+  for (const sale of sales) {
+    const saleId = sale._id!.toString();
+    lines.push({
+      date: timestampSchema.parse(sale.createdAt),
+      type: "sale",
+      saleId,
+      description: sale.description,
+      currency: sale.currency,
+      debit: sale.totalAmount,
+      credit: 0,
+    });
+
+    for (const log of sale.logs) {
+      const foreign = log.currency !== sale.currency;
+      lines.push({
+        date: timestampSchema.parse(log.createdAt),
+        type: "payment",
+        saleId,
+        paymentId: log._id?.toString(),
+        description: log.description ?? undefined,
+        paymentType: log.paymentType,
+        currency: sale.currency,
+        debit: 0,
+        credit: convertedPaymentAmount(log),
+        originalAmount: foreign ? log.amount : undefined,
+        originalCurrency: foreign ? log.currency : undefined,
+      });
+    }
+  }
+
+  // Chronological; a sale comes before payments recorded at the same moment
+  const order = (line: LedgerLine) => (line.type === "sale" ? 0 : 1);
+  return lines.sort((a, b) => a.date.toMillis() - b.date.toMillis() || order(a) - order(b));
+}
+
+/**
+ * Build a customer's account statement: a chronological ledger of sales (debits) and payments
+ * (credits) with running balances per currency. Activity before `from` is carried over as the
+ * opening balance; activity after `to` is left out.
+ */
+export function buildCustomerStatement(
+  customer: { id: string; name: string },
+  sales: Sale[],
+  query: StatementQuery
+): CustomerStatement {
+  const start = query.from?.getTime() ?? -Infinity;
+  const end = query.to ? periodEnd(query.to) : Infinity;
+
+  const openingBalances: CurrencyAmounts = {};
+  const balances: CurrencyAmounts = {};
+  const totals: CustomerStatement["totals"] = {};
+  const entries: StatementEntry[] = [];
+
+  for (const line of ledgerLines(sales)) {
+    const time = line.date.toMillis();
+    if (time >= end) break;
+
+    const balance = round2((balances[line.currency] ?? 0) + line.debit - line.credit);
+    balances[line.currency] = balance;
+
+    if (time < start) {
+      openingBalances[line.currency] = balance;
+      continue;
+    }
+
+    const total = (totals[line.currency] ??= { debit: 0, credit: 0 });
+    total.debit = round2(total.debit + line.debit);
+    total.credit = round2(total.credit + line.credit);
+    entries.push({ ...line, balance });
+  }
+
+  return {
+    customerId: customer.id,
+    customerName: customer.name,
+    from: query.from ? Timestamp.fromDate(query.from) : undefined,
+    to: query.to ? Timestamp.fromDate(query.to) : undefined,
+    openingBalances,
+    entries,
+    totals,
+    closingBalances: balances,
+    generatedAt: Timestamp.now(),
+  };
+}
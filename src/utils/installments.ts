@@ -0,0 +1,68 @@
+import type { Sale, InstallmentState, InstallmentStatus } from "@/types/customer/sale/sale";
+import { timestampSchema } from "@/types/timestamp";
+import { convertedPaymentAmount } from "@/utils/sale-payments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unpaid installments due within this many days are reported as "due" rather than "upcoming"
+export const DUE_SOON_DAYS = 7;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toMillis = (value: unknown) => timestampSchema.parse(value).toMillis();
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Match the sale's payments against its installment plan. Payments are applied oldest first to the
+ * installment with the earliest due date, so an early or partial payment counts towards the next
+ * open installment.
+ */
+export function buildInstallmentSchedule(sale: Sale, now: Date = new Date()): InstallmentState[] {
+  const installments = [...(sale.installments ?? [])].sort((a, b) => toMillis(a.dueDate) - toMillis(b.dueDate));
+  const payments = [...sale.logs]
+    .sort((a, b) => toMillis(a.createdAt) - toMillis(b.createdAt))
+    .map(log => ({ amount: convertedPaymentAmount(log), date: log.createdAt }));
+
+  const today = startOfDay(now);
+  let paymentIndex = 0;
+
+  return installments.map(installment => {
+    let paidAmount = 0;
+    let paidAt: InstallmentState["paidAt"];
+
+    while (paidAmount < installment.amount && paymentIndex < payments.length) {
+      const payment = payments[paymentIndex]!;
+      const applied = Math.min(payment.amount, installment.amount - paidAmount);
+      paidAmount = round2(paidAmount + applied);
+      payment.amount = round2(payment.amount - applied);
+      paidAt = timestampSchema.parse(payment.date);
+      if (payment.amount <= 0) paymentIndex++;
+    }
+
+    const remainingAmount = round2(installment.amount - paidAmount);
+    const dueDay = startOfDay(timestampSchema.parse(installment.dueDate).toDate());
+
+    let status: InstallmentStatus;
+    if (remainingAmount <= 0) {
+      status = "paid";
+    } else if (dueDay < today) {
+      status = "overdue";
+    } else if (dueDay <= today + DUE_SOON_DAYS * DAY_MS) {
+      status = "due";
+    } else {
+      status = "upcoming";
+    }
+
+    return {
+      ...installment,
+      paidAmount,
+      remainingAmount,
+      status,
+      paidAt: status === "paid" ? paidAt : undefined,
+      daysOverdue: status === "overdue" ? Math.round((today - dueDay) / DAY_MS) : 0,
+    };
+  });
+}
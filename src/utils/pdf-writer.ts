@@ -0,0 +1,147 @@
+import { rgb, type PDFDocument, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import { timestampSchema } from "@/types/timestamp";
+
+export const PAGE_WIDTH = 595.28; // A4
+export const PAGE_HEIGHT = 841.89;
+export const MARGIN = 40;
+export const LINE_HEIGHT = 16;
+const PHOTO_HEIGHT = 110;
+const PHOTO_MAX_WIDTH = 160;
+const PHOTO_GAP = 8;
+
+export const BRAND_COLOR = rgb(0.16, 0.27, 0.45);
+export const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+export const ROW_FILL_COLOR = rgb(0.94, 0.95, 0.97);
+
+// Table column: x offset, width and text alignment
+export interface PdfColumn {
+  x: number;
+  width: number;
+  align: "left" | "right";
+}
+
+/**
+ * Standard PDF fonts use WinAnsi encoding, which has no glyphs for some Turkish letters.
+ * Replace them with their closest Latin equivalents so drawing never throws.
+ */
+function sanitize(text: string): string {
+  return text
+    .replace(/ş/g, "s")
+    .replace(/Ş/g, "S")
+    .replace(/ğ/g, "g")
+    .replace(/Ğ/g, "G")
+    .replace(/ı/g, "i")
+    .replace(/İ/g, "I")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+export function formatAmount(value: number): string {
+  return value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Exchange rates need more precision than amounts, e.g. 1 TRY = 0,028571 USD
+export function formatRate(value: number): string {
+  return value.toLocaleString("tr-TR", { minimumFractionDigits: 4, maximumFractionDigits: 6 });
+}
+
+export function formatDate(value: unknown): string {
+  return timestampSchema.parse(value).toDate().toLocaleDateString("tr-TR");
+}
+
+/**
+ * Incrementally draws text onto pages, adding a new page whenever the cursor runs out of space.
+ */
+export class PdfWriter {
+  private page: PDFPage;
+  private y: number;
+
+  constructor(
+    private doc: PDFDocument,
+    private regular: PDFFont,
+    private bold: PDFFont
+  ) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(lines: number = 1) {
+    if (this.y - lines * LINE_HEIGHT < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  moveDown(lines: number = 1) {
+    this.y -= lines * LINE_HEIGHT;
+  }
+
+  text(value: string, x: number, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb> } = {}) {
+    this.page.drawText(sanitize(value), {
+      x,
+      y: this.y,
+      size: options.size ?? 10,
+      font: options.bold ? this.bold : this.regular,
+      color: options.color ?? rgb(0, 0, 0),
+    });
+  }
+
+  cell(value: string, column: PdfColumn, options: { bold?: boolean } = {}) {
+    const font = options.bold ? this.bold : this.regular;
+    const size = 9;
+    let content = sanitize(value);
+
+    // Truncate content that would overflow into the next column
+    const maxWidth = column.width - 4;
+    if (font.widthOfTextAtSize(content, size) > maxWidth) {
+      while (content.length > 0 && font.widthOfTextAtSize(`${content}...`, size) > maxWidth) {
+        content = content.slice(0, -1);
+      }
+      content = `${content}...`;
+    }
+
+    const width = font.widthOfTextAtSize(content, size);
+    const x = column.align === "right" ? column.x + column.width - width - 2 : column.x + 2;
+    this.page.drawText(content, { x, y: this.y, size, font });
+  }
+
+  fillRow(color: ReturnType<typeof rgb>) {
+    this.page.drawRectangle({
+      x: MARGIN,
+      y: this.y - 4,
+      width: PAGE_WIDTH - MARGIN * 2,
+      height: LINE_HEIGHT,
+      color,
+    });
+  }
+
+  /**
+   * Draw photos as thumbnails side by side, wrapping onto further rows as needed.
+   */
+  photos(images: PDFImage[]) {
+    const lines = Math.ceil(PHOTO_HEIGHT / LINE_HEIGHT) + 1;
+    this.ensureSpace(lines);
+    let x = MARGIN;
+
+    for (const image of images) {
+      const size = image.scaleToFit(PHOTO_MAX_WIDTH, PHOTO_HEIGHT);
+      if (x + size.width > PAGE_WIDTH - MARGIN) {
+        this.moveDown(lines);
+        this.ensureSpace(lines);
+        x = MARGIN;
+      }
+      this.page.drawImage(image, { x, y: this.y + LINE_HEIGHT - 4 - size.height, ...size });
+      x += size.width + PHOTO_GAP;
+    }
+
+    this.moveDown(lines);
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y + LINE_HEIGHT - 4 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y + LINE_HEIGHT - 4 },
+      thickness: 0.5,
+      color: MUTED_COLOR,
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import type { QuoteRoom } from "@/types/quotes/quote";
+import {
+  DIFFED_ITEM_FIELDS,
+  type FieldChange,
+  type QuoteRevision,
+  type QuoteRevisionDiff,
+} from "@/types/quotes/quote_revision";
+
+/**
+ * Rooms and total of the given option as stored in the revision: empty if the option did not exist
+ * yet, the working rooms if the revision has no option snapshot.
+ */
+function optionContent(revision: QuoteRevision, optionId: string | null | undefined): { rooms: QuoteRoom[]; total: number } {
+  if (!optionId || !revision.options?.length) return revision;
+  return revision.options.find((o) => o.id === optionId) ?? { rooms: [], total: 0 };
+}
+
+/**
+ * Compute a room/item level diff between two quote revisions.
+ * Rooms and items are matched by their local IDs, so renames and edits are reported as changes.
+ * When the active option was switched, the newer revision's active option is compared against
+ * that same option in the older revision.
+ */
+export function diffQuoteRevisions(from: QuoteRevision, to: QuoteRevision): QuoteRevisionDiff {
+  const before = optionContent(from, to.activeOptionId);
+  const diff: QuoteRevisionDiff = {
+    from: from.revision,
+    to: to.revision,
+    rooms: { added: [], removed: [], renamed: [] },
+    items: { added: [], removed: [], changed: [] },
+    total: { from: before.total, to: to.total },
+  };
+
+  if (from.currency !== to.currency) {
+    diff.currency = { from: from.currency, to: to.currency };
+  }
+  if ((from.activeOptionId ?? null) !== (to.activeOptionId ?? null)) {
+    diff.activeOption = { from: from.activeOptionId ?? null, to: to.activeOptionId ?? null };
+  }
+  if ((from.selectedOptionId ?? null) !== (to.selectedOptionId ?? null)) {
+    diff.selectedOption = { from: from.selectedOptionId ?? null, to: to.selectedOptionId ?? null };
+  }
+
+  const fromRooms = new Map<string, QuoteRoom>(before.rooms.map((r) => [r.id, r]));
+  const toRooms = new Map<string, QuoteRoom>(to.rooms.map((r) => [r.id, r]));
+
+  for (const [roomId, oldRoom] of fromRooms) {
+    const newRoom = toRooms.get(roomId);
+    if (!newRoom) {
+      diff.rooms.removed.push({ id: roomId, name: oldRoom.name });
+      for (const item of oldRoom.items) {
+        diff.items.removed.push({ roomId, roomName: oldRoom.name, item });
+      }
+      continue;
+    }
+
+    if (oldRoom.name !== newRoom.name) {
+      diff.rooms.renamed.push({ id: roomId, from: oldRoom.name, to: newRoom.name });
+    }
+
+    const newItems = new Map(newRoom.items.map((i) => [i.id, i]));
+    for (const oldItem of oldRoom.items) {
+      const newItem = newItems.get(oldItem.id);
+      if (!newItem) {
+        diff.items.removed.push({ roomId, roomName: newRoom.name, item: oldItem });
+        continue;
+      }
+
+      const changes: Record<string, FieldChange> = {};
+      for (const field of DIFFED_ITEM_FIELDS) {
+        if (oldItem[field] !== newItem[field]) {
+          changes[field] = { from: oldItem[field], to: newItem[field] };
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        diff.items.changed.push({ roomId, roomName: newRoom.name, itemId: oldItem.id, name: newItem.name, changes });
+      }
+      newItems.delete(oldItem.id);
+    }
+
+    // Whatever is left only exists in the newer revision
+    for (const item of newItems.values()) {
+      diff.items.added.push({ roomId, roomName: newRoom.name, item });
+    }
+  }
+
+  for (const [roomId, newRoom] of toRooms) {
+    if (fromRooms.has(roomId)) continue;
+    diff.rooms.added.push({ id: roomId, name: newRoom.name });
+    for (const item of newRoom.items) {
+      diff.items.added.push({ roomId, roomName: newRoom.name, item });
+    }
+  }
+
+  return diff;
+}
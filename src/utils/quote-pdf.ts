@@ -0,0 +1,155 @@
+import { PDFDocument, StandardFonts, type PDFImage } from "pdf-lib";
+import type { Quote, QuoteRoomImage } from "@/types/quotes/quote";
+import { unitLabel } from "@/utils/quote-pricing";
+import {
+  PdfWriter,
+  formatAmount,
+  formatDate,
+  formatRate,
+  PAGE_WIDTH,
+  MARGIN,
+  BRAND_COLOR,
+  MUTED_COLOR,
+  ROW_FILL_COLOR,
+  type PdfColumn,
+} from "@/utils/pdf-writer";
+
+// Column layout for item rows: [x offset, width, alignment]
+const COLUMNS = {
+  name: { x: MARGIN, width: 170, align: "left" },
+  quantity: { x: MARGIN + 170, width: 70, align: "right" },
+  unitPrice: { x: MARGIN + 240, width: 95, align: "right" },
+  convertedPrice: { x: MARGIN + 335, width: 90, align: "right" },
+  total: { x: MARGIN + 425, width: PAGE_WIDTH - MARGIN * 2 - 425, align: "right" },
+} satisfies Record<string, PdfColumn>;
+
+export interface QuotePdfContext {
+  companyName: string;
+  images?: Map<string, { data: Uint8Array; mimeType: string }>; // Room photo contents by image ID (JPEG/PNG)
+}
+
+async function embedRoomPhotos(
+  doc: PDFDocument,
+  roomImages: QuoteRoomImage[],
+  contents: QuotePdfContext["images"]
+): Promise<PDFImage[]> {
+  const photos: PDFImage[] = [];
+  for (const { imageId } of roomImages) {
+    const content = contents?.get(imageId);
+    if (!content) continue;
+
+    try {
+      photos.push(content.mimeType === "image/png" ? await doc.embedPng(content.data) : await doc.embedJpg(content.data));
+    } catch {
+      // Corrupt or mislabelled files are left out rather than failing the whole document
+    }
+  }
+  return photos;
+}
+
+/**
+ * Render a printable quote document with rooms, line items, conversion rates and totals.
+ */
+export async function renderQuotePdf(quote: Quote, context: QuotePdfContext): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${context.companyName} - ${quote.quoteNumber}`);
+  doc.setCreator(context.companyName);
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new PdfWriter(doc, regular, bold);
+
+  // Header
+  writer.text(context.companyName, MARGIN, { size: 20, bold: true, color: BRAND_COLOR });
+  writer.moveDown(2);
+  writer.text("FİYAT TEKLİFİ", MARGIN, { size: 13, bold: true });
+  writer.moveDown(1.5);
+  writer.text(`Teklif No: ${quote.quoteNumber}`, MARGIN);
+  writer.text(`Tarih: ${formatDate(quote.createdAt)}`, PAGE_WIDTH / 2);
+  writer.moveDown();
+  writer.text(`Müşteri: ${quote.customerName ?? "-"}`, MARGIN);
+  writer.text(`Hazırlayan: ${quote.creatorName ?? "-"}`, PAGE_WIDTH / 2);
+  writer.moveDown();
+  if (quote.validUntil) {
+    writer.text(`Geçerlilik Tarihi: ${formatDate(quote.validUntil)}`, MARGIN);
+    writer.moveDown();
+  }
+  writer.moveDown();
+
+  // Rooms and items
+  for (const room of quote.rooms) {
+    writer.ensureSpace(4);
+    writer.text(room.name, MARGIN, { size: 12, bold: true, color: BRAND_COLOR });
+    writer.moveDown();
+
+    const photos = await embedRoomPhotos(doc, room.images ?? [], context.images);
+    if (photos.length > 0) {
+      writer.photos(photos);
+    }
+
+    writer.cell("Ürün", COLUMNS.name, { bold: true });
+    writer.cell("Miktar", COLUMNS.quantity, { bold: true });
+    writer.cell("Birim Fiyat", COLUMNS.unitPrice, { bold: true });
+    writer.cell(`Birim (${quote.currency})`, COLUMNS.convertedPrice, { bold: true });
+    writer.cell(`Toplam (${quote.currency})`, COLUMNS.total, { bold: true });
+    writer.moveDown();
+    writer.rule();
+
+    room.items.forEach((item, index) => {
+      writer.ensureSpace();
+      if (index % 2 === 1) writer.fillRow(ROW_FILL_COLOR);
+      const dimensions = item.width ? ` (${item.width}${item.height ? `x${item.height}` : ""} cm)` : "";
+      writer.cell(`${item.name}${dimensions}`, COLUMNS.name);
+      writer.cell(`${formatAmount(item.quantity)} ${unitLabel(item)}`, COLUMNS.quantity);
+      writer.cell(`${formatAmount(item.unitPrice)} ${item.originalCurrency}`, COLUMNS.unitPrice);
+      writer.cell(formatAmount(item.convertedUnitPrice), COLUMNS.convertedPrice);
+      writer.cell(formatAmount(item.totalPrice), COLUMNS.total);
+      writer.moveDown();
+    });
+
+    writer.ensureSpace(2);
+    writer.rule();
+    if (room.discountAmount > 0) {
+      writer.cell("Oda İndirimi", COLUMNS.convertedPrice);
+      writer.cell(`-${formatAmount(room.discountAmount)} ${quote.currency}`, COLUMNS.total);
+      writer.moveDown();
+    }
+    writer.cell("Oda Toplamı", COLUMNS.convertedPrice, { bold: true });
+    writer.cell(`${formatAmount(room.total)} ${quote.currency}`, COLUMNS.total, { bold: true });
+    writer.moveDown(2);
+  }
+
+  // Conversion rates
+  const rates = Object.entries(quote.conversions).filter(([currency]) => currency !== quote.currency);
+  if (rates.length > 0) {
+    writer.ensureSpace(rates.length + 2);
+    writer.text("Kullanılan Kurlar", MARGIN, { size: 11, bold: true });
+    writer.moveDown();
+    for (const [currency, rate] of rates) {
+      writer.text(`1 ${currency} = ${formatRate(rate ?? 0)} ${quote.currency}`, MARGIN, { color: MUTED_COLOR });
+      writer.moveDown();
+    }
+    writer.moveDown();
+  }
+
+  // Totals
+  writer.ensureSpace(5);
+  writer.rule();
+  writer.cell("Ara Toplam", COLUMNS.unitPrice);
+  writer.cell(`${formatAmount(quote.subtotal ?? quote.total)} ${quote.currency}`, COLUMNS.total);
+  writer.moveDown();
+  if (quote.discountTotal > 0) {
+    writer.cell("Toplam İndirim", COLUMNS.unitPrice);
+    writer.cell(`-${formatAmount(quote.discountTotal)} ${quote.currency}`, COLUMNS.total);
+    writer.moveDown();
+  }
+  if (quote.taxTotal > 0) {
+    writer.cell(`KDV (%${quote.vatRate})`, COLUMNS.unitPrice);
+    writer.cell(`${formatAmount(quote.taxTotal)} ${quote.currency}`, COLUMNS.total);
+    writer.moveDown();
+  }
+  writer.cell("GENEL TOPLAM", COLUMNS.unitPrice, { bold: true });
+  writer.cell(`${formatAmount(quote.total)} ${quote.currency}`, COLUMNS.total, { bold: true });
+
+  return await doc.save();
+}
@@ -0,0 +1,144 @@
+import { AppError } from "@/middleware/error-handler";
+import type { Discount, ItemMeasurements, MarginSummary, Quote, QuoteItem, QuoteMarginReport } from "@/types/quotes/quote";
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Display unit of an item's quantity, e.g. "m" for items priced per metre.
+ */
+export function unitLabel(item: QuoteItem): string {
+  if (item.unit) return item.unit;
+  if (item.pricingUnit === "per_metre") return "m";
+  if (item.pricingUnit === "per_m2") return "m²";
+  return "adet";
+}
+
+/**
+ * Derive an item's quantity from its pricing unit and window measurements (cm).
+ * - per_metre: fabric metres = width * fullness
+ * - per_m2: area = width * height * fullness
+ * - per_piece (or no unit): the raw quantity is used as-is
+ */
+export function calculateItemQuantity(measurements: ItemMeasurements, quantity?: number): number {
+  const { width, height, pricingUnit } = measurements;
+  const fullness = measurements.fullness ?? 1;
+
+  switch (pricingUnit) {
+    case "per_metre":
+      if (!width) {
+        throw new AppError(400, "Width is required for items priced per metre.", "VALIDATION_ERROR");
+      }
+      return round2((width / 100) * fullness);
+
+    case "per_m2":
+      if (!width || !height) {
+        throw new AppError(400, "Width and height are required for items priced per m².", "VALIDATION_ERROR");
+      }
+      return round2((width / 100) * (height / 100) * fullness);
+
+    default:
+      if (!quantity) {
+        throw new AppError(400, "Quantity is required for items priced per piece.", "VALIDATION_ERROR");
+      }
+      return quantity;
+  }
+}
+
+/**
+ * Resolve a discount against the amount it applies to, never exceeding that amount.
+ */
+export function calculateDiscountAmount(base: number, discount?: Discount | null): number {
+  if (!discount || base <= 0) return 0;
+
+  const amount = discount.type === "percentage" ? (base * discount.value) / 100 : discount.value;
+  return round2(Math.min(amount, base));
+}
+
+/**
+ * Recompute every item, room and quote level amount in place.
+ * Order: line discounts → room discounts → quote discount → VAT on the discounted amount.
+ */
+export function applyQuoteTotals(quote: Quote): Quote {
+  let subtotal = 0;
+  let discountTotal = 0;
+  let roomsTotal = 0;
+
+  for (const room of quote.rooms) {
+    let roomSubtotal = 0;
+    for (const item of room.items) {
+      // Re-apply conversion in case rates changed
+      const rate = quote.conversions[item.originalCurrency] || 1;
+      item.convertedUnitPrice = item.unitPrice * rate;
+      item.totalPrice = item.quantity * item.convertedUnitPrice;
+      item.discountAmount = calculateDiscountAmount(item.totalPrice, item.discount);
+
+      subtotal += item.totalPrice;
+      discountTotal += item.discountAmount;
+      roomSubtotal += item.totalPrice - item.discountAmount;
+    }
+
+    room.subtotal = round2(roomSubtotal);
+    room.discountAmount = calculateDiscountAmount(room.subtotal, room.discount);
+    room.total = round2(room.subtotal - room.discountAmount);
+
+    discountTotal += room.discountAmount;
+    roomsTotal += room.total;
+  }
+
+  const quoteDiscount = calculateDiscountAmount(roomsTotal, quote.discount);
+  discountTotal += quoteDiscount;
+
+  const taxable = roomsTotal - quoteDiscount;
+  const taxTotal = (taxable * (quote.vatRate ?? 0)) / 100;
+
+  quote.subtotal = round2(subtotal);
+  quote.discountTotal = round2(discountTotal);
+  quote.taxTotal = round2(taxTotal);
+  quote.total = round2(taxable + taxTotal);
+
+  return quote;
+}
+
+function summarizeMargin(revenue: number, cost: number): MarginSummary {
+  const margin = revenue - cost;
+  return {
+    revenue: round2(revenue),
+    cost: round2(cost),
+    margin: round2(margin),
+    marginPercent: revenue > 0 ? round2((margin / revenue) * 100) : null,
+  };
+}
+
+/**
+ * Break down margin per item, room and quote. Expects totals to be up to date (see applyQuoteTotals).
+ * Items added before costs were recorded were priced at cost, so their unit price stands in for it.
+ */
+export function calculateQuoteMargins(quote: Quote): QuoteMarginReport {
+  let quoteCost = 0;
+
+  const rooms = quote.rooms.map((room) => {
+    let roomCost = 0;
+
+    const items = room.items.map((item) => {
+      const rate = quote.conversions[item.originalCurrency] || 1;
+      const cost = item.quantity * (item.unitCost ?? item.unitPrice) * rate;
+      roomCost += cost;
+
+      return {
+        itemId: item.id,
+        name: item.name,
+        ...summarizeMargin(item.totalPrice - (item.discountAmount ?? 0), cost),
+      };
+    });
+
+    quoteCost += roomCost;
+    return { roomId: room.id, roomName: room.name, ...summarizeMargin(room.total, roomCost), items };
+  });
+
+  return {
+    quoteId: quote._id!.toString(),
+    currency: quote.currency,
+    ...summarizeMargin(quote.total - (quote.taxTotal ?? 0), quoteCost),
+    rooms,
+  };
+}
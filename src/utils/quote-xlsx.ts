@@ -0,0 +1,124 @@
+import * as XLSX from "xlsx";
+import type { Quote, QuoteRoom } from "@/types/quotes/quote";
+import { formatDate } from "@/utils/pdf-writer";
+import { round2, unitLabel } from "@/utils/quote-pricing";
+
+export interface QuoteXlsxContext {
+  companyName: string;
+}
+
+const ITEM_HEADER = [
+  "Ürün",
+  "Genişlik (cm)",
+  "Yükseklik (cm)",
+  "Miktar",
+  "Ölçü Birimi",
+  "Birim Fiyat",
+  "Para Birimi",
+  "Kur",
+  "Birim Fiyat (Çevrilmiş)",
+  "Tutar",
+  "İndirim",
+  "Net Tutar",
+];
+
+/**
+ * Excel sheet names are limited to 31 characters, must be unique and cannot contain : \ / ? * [ ]
+ */
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[:\\/?*[\]]/g, " ").replace(/\s+/g, " ").trim() || "Oda";
+  let candidate = base.slice(0, 31);
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    // Shorten the name, not the suffix, so every candidate stays within the limit
+    const suffix = ` (${i})`;
+    candidate = `${base.slice(0, 31 - suffix.length).trimEnd()}${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function buildSummarySheet(quote: Quote, context: QuoteXlsxContext): XLSX.WorkSheet {
+  const rows: (string | number)[][] = [
+    [context.companyName],
+    ["Teklif No", quote.quoteNumber],
+    ["Tarih", formatDate(quote.createdAt)],
+    ["Müşteri", quote.customerName ?? "-"],
+    ["Hazırlayan", quote.creatorName ?? "-"],
+  ];
+  if (quote.validUntil) {
+    rows.push(["Geçerlilik Tarihi", formatDate(quote.validUntil)]);
+  }
+  rows.push(["Para Birimi", quote.currency], []);
+
+  rows.push(["Kullanılan Kurlar"]);
+  for (const [currency, rate] of Object.entries(quote.conversions)) {
+    if (currency === quote.currency) continue;
+    rows.push([`1 ${currency}`, rate ?? 0, quote.currency]);
+  }
+  rows.push([]);
+
+  rows.push(["Oda", "Ara Toplam", "İndirim", "Toplam"]);
+  for (const room of quote.rooms) {
+    rows.push([room.name, room.subtotal, room.discountAmount, room.total]);
+  }
+  rows.push([]);
+
+  rows.push(["Ara Toplam", quote.subtotal ?? quote.total]);
+  rows.push(["Toplam İndirim", quote.discountTotal ?? 0]);
+  rows.push([`KDV (%${quote.vatRate ?? 0})`, quote.taxTotal ?? 0]);
+  rows.push(["GENEL TOPLAM", quote.total]);
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = [{ wch: 24 }, { wch: 18 }, { wch: 14 }, { wch: 14 }];
+  return sheet;
+}
+
+function buildRoomSheet(quote: Quote, room: QuoteRoom): XLSX.WorkSheet {
+  const rows: (string | number | null)[][] = [[room.name], [], ITEM_HEADER];
+
+  for (const item of room.items) {
+    const discountAmount = item.discountAmount ?? 0;
+    rows.push([
+      item.name,
+      item.width ?? null,
+      item.height ?? null,
+      item.quantity,
+      unitLabel(item),
+      item.unitPrice,
+      item.originalCurrency,
+      quote.conversions[item.originalCurrency] ?? 1,
+      round2(item.convertedUnitPrice),
+      round2(item.totalPrice),
+      discountAmount,
+      round2(item.totalPrice - discountAmount),
+    ]);
+  }
+
+  const label = ITEM_HEADER.length - 2;
+  const pad = (cells: (string | number)[]) => [...Array(label).fill(null), ...cells];
+  rows.push([]);
+  rows.push(pad(["Ara Toplam", room.subtotal]));
+  if (room.discountAmount > 0) {
+    rows.push(pad(["Oda İndirimi", -room.discountAmount]));
+  }
+  rows.push(pad([`Oda Toplamı (${quote.currency})`, room.total]));
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = ITEM_HEADER.map((header, index) => ({ wch: index === 0 ? 36 : Math.max(12, header.length + 2) }));
+  return sheet;
+}
+
+/**
+ * Build a workbook with a summary sheet followed by one sheet per room.
+ */
+export function renderQuoteXlsx(quote: Quote, context: QuoteXlsxContext): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>(["özet"]);
+
+  XLSX.utils.book_append_sheet(workbook, buildSummarySheet(quote, context), "Özet");
+  for (const room of quote.rooms) {
+    XLSX.utils.book_append_sheet(workbook, buildRoomSheet(quote, room), sheetName(room.name, used));
+  }
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
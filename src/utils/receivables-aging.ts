@@ -0,0 +1,85 @@
+import { Timestamp } from "firebase-admin/firestore";
+import type { Sale } from "@/types/customer/sale/sale";
+import {
+  AGING_BUCKETS,
+  type AgingBucket,
+  type AgingBuckets,
+  type CustomerAging,
+  type ReceivablesAgingReport,
+} from "@/types/customer/sale/aging";
+import { timestampSchema } from "@/types/timestamp";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+function bucketFor(days: number): AgingBucket {
+  if (days <= 30) return "0-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+function emptyBuckets(): AgingBuckets {
+  return Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket, 0])) as AgingBuckets;
+}
+
+export type AgingSale = Pick<Sale, "_id" | "customerId" | "currency" | "totalAmount" | "totalPaidAmount" | "createdAt">;
+
+/**
+ * Group the outstanding balances of pending sales by customer and currency into aging buckets
+ * based on the number of days since each sale.
+ */
+export function buildAgingReport(
+  sales: AgingSale[],
+  customerNames: Map<string, string>,
+  now: Date = new Date()
+): ReceivablesAgingReport {
+  const today = startOfDay(now);
+  const rows = new Map<string, CustomerAging>();
+  const totals: ReceivablesAgingReport["totals"] = {};
+
+  for (const sale of sales) {
+    const outstanding = round2(sale.totalAmount - sale.totalPaidAmount);
+    if (outstanding <= 0) continue;
+
+    const saleDate = timestampSchema.parse(sale.createdAt);
+    const days = Math.max(0, Math.round((today - startOfDay(saleDate.toDate())) / DAY_MS));
+    const bucket = bucketFor(days);
+
+    const key = `${sale.customerId}:${sale.currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        customerId: sale.customerId,
+        customerName: customerNames.get(sale.customerId),
+        currency: sale.currency,
+        buckets: emptyBuckets(),
+        total: 0,
+        saleCount: 0,
+        oldestSaleDate: saleDate,
+      };
+      rows.set(key, row);
+    }
+    row.buckets[bucket] = round2(row.buckets[bucket] + outstanding);
+    row.total = round2(row.total + outstanding);
+    row.saleCount++;
+    if (saleDate.toMillis() < row.oldestSaleDate.toMillis()) {
+      row.oldestSaleDate = saleDate;
+    }
+
+    const total = (totals[sale.currency] ??= { buckets: emptyBuckets(), total: 0 });
+    total.buckets[bucket] = round2(total.buckets[bucket] + outstanding);
+    total.total = round2(total.total + outstanding);
+  }
+
+  return {
+    asOf: Timestamp.fromDate(now),
+    customers: [...rows.values()].sort((a, b) => b.total - a.total),
+    totals,
+  };
+}
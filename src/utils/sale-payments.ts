@@ -0,0 +1,23 @@
+import type { PaymentLog } from "@/types/customer/sale/payment_log";
+import type { SaleStatus } from "@/types/customer/sale/sale";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount a payment contributes to the sale total, in the sale currency.
+ * Logs recorded before payments were converted count at face value.
+ */
+export function convertedPaymentAmount(log: PaymentLog): number {
+  return log.convertedAmount ?? log.amount;
+}
+
+/**
+ * Paid total and status of a sale derived from its payment logs.
+ */
+export function calculateSaleTotals(
+  totalAmount: number,
+  logs: PaymentLog[]
+): { totalPaidAmount: number; status: SaleStatus } {
+  const totalPaidAmount = round2(logs.reduce((sum, log) => sum + convertedPaymentAmount(log), 0));
+  return { totalPaidAmount, status: totalPaidAmount >= totalAmount ? "completed" : "pending" };
+}
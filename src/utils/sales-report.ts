@@ -0,0 +1,179 @@
+import { Timestamp } from "firebase-admin/firestore";
+import type { Currency } from "@/types/currency";
+import type {
+  CollectionsAggregate,
+  RevenueAggregate,
+  SalesAggregateRow,
+  SalesFigures,
+  SalesFiguresChange,
+  SalesReport,
+  SalesReportPeriodSummary,
+  SalesReportQuery,
+} from "@/types/customer/sale/sales_report";
+
+export interface ReportRanges {
+  current: { from: Timestamp; to: Timestamp };
+  previous: { from: Timestamp; to: Timestamp };
+}
+
+export interface ReportAggregates {
+  revenue: RevenueAggregate;
+  collections: CollectionsAggregate;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds.
+ */
+function timeZoneOffset(time: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(new Date(time))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallTime = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!);
+  return wallTime - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Start of a calendar day (YYYY-MM-DD, shifted by `addDays`) in `timeZone`.
+ */
+function startOfDay(date: string, timeZone: string, addDays = 0): Timestamp {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallMidnight = Date.UTC(year!, month! - 1, day! + addDays);
+  // Re-apply the offset found at the first guess so days starting at a DST change land right
+  const guess = wallMidnight - timeZoneOffset(wallMidnight, timeZone);
+  return Timestamp.fromMillis(wallMidnight - timeZoneOffset(guess, timeZone));
+}
+
+/**
+ * The requested days and the same number of days right before them, as end-exclusive instants
+ * in the report timezone.
+ */
+export function reportRanges(query: Pick<SalesReportQuery, "from" | "to" | "timezone">): ReportRanges {
+  const days = (Date.parse(query.to) - Date.parse(query.from)) / DAY_MS + 1;
+  const from = startOfDay(query.from, query.timezone);
+
+  return {
+    current: { from, to: startOfDay(query.to, query.timezone, 1) },
+    previous: { from: startOfDay(query.from, query.timezone, -days), to: from },
+  };
+}
+
+function emptyFigures(): SalesFigures {
+  return { revenue: 0, saleCount: 0, collections: 0, paymentCount: 0 };
+}
+
+/**
+ * Join revenue and collection rows that share the same grouping key into one figures row.
+ */
+function mergeRows<K extends object>(
+  revenue: SalesAggregateRow<K>[],
+  collections: SalesAggregateRow<K>[],
+  keyOf: (id: SalesAggregateRow<K>["_id"]) => string
+): { id: SalesAggregateRow<K>["_id"]; userName?: string; figures: SalesFigures }[] {
+  const rows = new Map<string, { id: SalesAggregateRow<K>["_id"]; userName?: string; figures: SalesFigures }>();
+  const rowFor = (item: SalesAggregateRow<K>) => {
+    const key = `${keyOf(item._id)}|${item._id.currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { id: item._id, figures: emptyFigures() };
+      rows.set(key, row);
+    }
+    row.userName ??= item.userName ?? undefined;
+    return row;
+  };
+
+  for (const item of revenue) {
+    const { figures } = rowFor(item);
+    figures.revenue = round2(item.amount);
+    figures.saleCount = item.count;
+  }
+  for (const item of collections) {
+    const { figures } = rowFor(item);
+    figures.collections = round2(item.amount);
+    figures.paymentCount = item.count;
+  }
+
+  return [...rows.values()];
+}
+
+function summarize(range: { from: Timestamp; to: Timestamp }, aggregates: ReportAggregates): SalesReportPeriodSummary {
+  const byCurrency: SalesReportPeriodSummary["byCurrency"] = {};
+  for (const row of mergeRows(aggregates.revenue.byCurrency, aggregates.collections.byCurrency, () => "")) {
+    byCurrency[row.id.currency] = row.figures;
+  }
+  return { ...range, byCurrency };
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : round2(((current - previous) / previous) * 100);
+}
+
+/**
+ * Combine the revenue and collection aggregates of the requested period and the previous one
+ * into a single report.
+ */
+export function buildSalesReport(
+  query: SalesReportQuery,
+  ranges: ReportRanges,
+  current: ReportAggregates,
+  previous: ReportAggregates
+): SalesReport {
+  const currentSummary = summarize(ranges.current, current);
+  const previousSummary = summarize(ranges.previous, previous);
+
+  const change: SalesReport["change"] = {};
+  const currencies = new Set([
+    ...Object.keys(currentSummary.byCurrency),
+    ...Object.keys(previousSummary.byCurrency),
+  ]) as Set<Currency>;
+  for (const currency of currencies) {
+    const now = currentSummary.byCurrency[currency] ?? emptyFigures();
+    const before = previousSummary.byCurrency[currency] ?? emptyFigures();
+    change[currency] = {
+      revenue: percentChange(now.revenue, before.revenue),
+      collections: percentChange(now.collections, before.collections),
+    } satisfies SalesFiguresChange;
+  }
+
+  const byPeriod = mergeRows(current.revenue.byPeriod, current.collections.byPeriod, (id) =>
+    String(id.period.getTime())
+  )
+    .sort((a, b) => a.id.period.getTime() - b.id.period.getTime() || a.id.currency.localeCompare(b.id.currency))
+    .map(({ id, figures }) => ({ period: Timestamp.fromDate(id.period), currency: id.currency, ...figures }));
+
+  const byUser = mergeRows(current.revenue.byUser, current.collections.byUser, (id) => id.userId)
+    .sort((a, b) => b.figures.revenue - a.figures.revenue || b.figures.collections - a.figures.collections)
+    .map(({ id, userName, figures }) => ({ userId: id.userId, userName, currency: id.currency, ...figures }));
+
+  const byPaymentType = current.collections.byPaymentType.map((row) => ({
+    paymentType: row._id.paymentType,
+    currency: row._id.currency,
+    amount: round2(row.amount),
+    count: row.count,
+  }));
+
+  return {
+    groupBy: query.groupBy,
+    timezone: query.timezone,
+    current: currentSummary,
+    previous: previousSummary,
+    change,
+    byPeriod,
+    byUser,
+    byPaymentType,
+  };
+}
@@ -0,0 +1,127 @@
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import type { Currency } from "@/types/currency";
+import type { CurrencyAmounts, CustomerStatement, StatementEntry } from "@/types/customer/sale/statement";
+import {
+  PdfWriter,
+  formatAmount,
+  formatDate,
+  PAGE_WIDTH,
+  MARGIN,
+  BRAND_COLOR,
+  MUTED_COLOR,
+  ROW_FILL_COLOR,
+  type PdfColumn,
+} from "@/utils/pdf-writer";
+import { PAYMENT_TYPE_LABELS } from "@/utils/customer-statement";
+
+const COLUMNS = {
+  date: { x: MARGIN, width: 65, align: "left" },
+  description: { x: MARGIN + 65, width: 170, align: "left" },
+  debit: { x: MARGIN + 235, width: 90, align: "right" },
+  credit: { x: MARGIN + 325, width: 90, align: "right" },
+  balance: { x: MARGIN + 415, width: PAGE_WIDTH - MARGIN * 2 - 415, align: "right" },
+} satisfies Record<string, PdfColumn>;
+
+export interface StatementPdfContext {
+  companyName: string;
+}
+
+function formatMoney(value: number, currency: Currency): string {
+  return `${formatAmount(value)} ${currency}`;
+}
+
+function describe(entry: StatementEntry): string {
+  if (entry.type === "sale") {
+    return entry.description ? `Satış - ${entry.description}` : "Satış";
+  }
+
+  const label = `Tahsilat (${entry.paymentType ? PAYMENT_TYPE_LABELS[entry.paymentType] : "-"})`;
+  return entry.originalCurrency
+    ? `${label} ${formatMoney(entry.originalAmount ?? 0, entry.originalCurrency)}`
+    : label;
+}
+
+function balanceLines(writer: PdfWriter, title: string, balances: CurrencyAmounts) {
+  const rows = Object.entries(balances) as [Currency, number][];
+  writer.ensureSpace(rows.length + 1);
+  writer.cell(title, COLUMNS.description, { bold: true });
+  if (rows.length === 0) {
+    writer.cell("0,00", COLUMNS.balance, { bold: true });
+    writer.moveDown();
+    return;
+  }
+  for (const [currency, balance] of rows) {
+    writer.cell(formatMoney(balance, currency), COLUMNS.balance, { bold: true });
+    writer.moveDown();
+  }
+}
+
+/**
+ * Render a customer account statement: opening balances, the ledger with running balances and
+ * closing balances per currency.
+ */
+export async function renderStatementPdf(statement: CustomerStatement, context: StatementPdfContext): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${context.companyName} - ${statement.customerName} Hesap Ekstresi`);
+  doc.setCreator(context.companyName);
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new PdfWriter(doc, regular, bold);
+
+  // Header
+  writer.text(context.companyName, MARGIN, { size: 20, bold: true, color: BRAND_COLOR });
+  writer.moveDown(2);
+  writer.text("HESAP EKSTRESİ", MARGIN, { size: 13, bold: true });
+  writer.moveDown(1.5);
+  writer.text(`Müşteri: ${statement.customerName}`, MARGIN);
+  writer.text(`Tarih: ${formatDate(statement.generatedAt)}`, PAGE_WIDTH / 2);
+  writer.moveDown();
+  const from = statement.from ? formatDate(statement.from) : "Başlangıç";
+  const to = statement.to ? formatDate(statement.to) : "Bugün";
+  writer.text(`Dönem: ${from} - ${to}`, MARGIN);
+  writer.moveDown(2);
+
+  // Ledger
+  writer.cell("Tarih", COLUMNS.date, { bold: true });
+  writer.cell("Açıklama", COLUMNS.description, { bold: true });
+  writer.cell("Borç", COLUMNS.debit, { bold: true });
+  writer.cell("Alacak", COLUMNS.credit, { bold: true });
+  writer.cell("Bakiye", COLUMNS.balance, { bold: true });
+  writer.moveDown();
+  writer.rule();
+
+  if (statement.from) {
+    balanceLines(writer, "Devreden Bakiye", statement.openingBalances);
+  }
+
+  statement.entries.forEach((entry, index) => {
+    writer.ensureSpace();
+    if (index % 2 === 1) writer.fillRow(ROW_FILL_COLOR);
+    writer.cell(formatDate(entry.date), COLUMNS.date);
+    writer.cell(describe(entry), COLUMNS.description);
+    writer.cell(entry.debit ? formatMoney(entry.debit, entry.currency) : "", COLUMNS.debit);
+    writer.cell(entry.credit ? formatMoney(entry.credit, entry.currency) : "", COLUMNS.credit);
+    writer.cell(formatMoney(entry.balance, entry.currency), COLUMNS.balance);
+    writer.moveDown();
+  });
+
+  if (statement.entries.length === 0) {
+    writer.text("Bu dönemde hareket bulunmamaktadır.", MARGIN, { color: MUTED_COLOR });
+    writer.moveDown();
+  }
+
+  // Period totals and closing balances
+  writer.ensureSpace(2);
+  writer.rule();
+  for (const [currency, total] of Object.entries(statement.totals) as [Currency, { debit: number; credit: number }][]) {
+    writer.ensureSpace();
+    writer.cell(`Dönem Toplamı (${currency})`, COLUMNS.description);
+    writer.cell(formatMoney(total.debit, currency), COLUMNS.debit);
+    writer.cell(formatMoney(total.credit, currency), COLUMNS.credit);
+    writer.moveDown();
+  }
+  balanceLines(writer, "Kalan Bakiye", statement.closingBalances);
+
+  return await doc.save();
+}
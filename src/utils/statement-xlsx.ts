@@ -0,0 +1,78 @@
+import * as XLSX from "xlsx";
+import type { CustomerStatement } from "@/types/customer/sale/statement";
+import { timestampSchema } from "@/types/timestamp";
+import { PAYMENT_TYPE_LABELS } from "@/utils/customer-statement";
+
+export interface StatementXlsxContext {
+  companyName: string;
+}
+
+const LEDGER_HEADER = [
+  "Tarih",
+  "İşlem",
+  "Açıklama",
+  "Ödeme Tipi",
+  "Para Birimi",
+  "Borç",
+  "Alacak",
+  "Bakiye",
+  "Ödenen Tutar",
+  "Ödeme Para Birimi",
+];
+
+function formatDate(value: unknown): string {
+  return timestampSchema.parse(value).toDate().toLocaleDateString("tr-TR");
+}
+
+/**
+ * Build a single-sheet workbook with the statement header, ledger and balances per currency.
+ */
+export function renderStatementXlsx(statement: CustomerStatement, context: StatementXlsxContext): Buffer {
+  const rows: (string | number | null)[][] = [
+    [context.companyName],
+    ["Hesap Ekstresi"],
+    ["Müşteri", statement.customerName],
+    ["Başlangıç", statement.from ? formatDate(statement.from) : "-"],
+    ["Bitiş", statement.to ? formatDate(statement.to) : "-"],
+    ["Oluşturulma", formatDate(statement.generatedAt)],
+    [],
+  ];
+
+  if (statement.from) {
+    rows.push(["Devreden Bakiye"]);
+    for (const [currency, balance] of Object.entries(statement.openingBalances)) {
+      rows.push([currency, balance ?? 0]);
+    }
+    rows.push([]);
+  }
+
+  rows.push(LEDGER_HEADER);
+  for (const entry of statement.entries) {
+    rows.push([
+      formatDate(entry.date),
+      entry.type === "sale" ? "Satış" : "Tahsilat",
+      entry.description ?? "",
+      entry.paymentType ? PAYMENT_TYPE_LABELS[entry.paymentType] : "",
+      entry.currency,
+      entry.debit || null,
+      entry.credit || null,
+      entry.balance,
+      entry.originalAmount ?? null,
+      entry.originalCurrency ?? null,
+    ]);
+  }
+  rows.push([]);
+
+  rows.push(["Para Birimi", "Dönem Borç", "Dönem Alacak", "Kalan Bakiye"]);
+  for (const [currency, balance] of Object.entries(statement.closingBalances)) {
+    const total = statement.totals[currency as keyof typeof statement.totals];
+    rows.push([currency, total?.debit ?? 0, total?.credit ?? 0, balance ?? 0]);
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = LEDGER_HEADER.map((header, index) => ({ wch: index === 2 ? 36 : Math.max(12, header.length + 2) }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Ekstre");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}